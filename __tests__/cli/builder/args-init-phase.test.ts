@@ -0,0 +1,65 @@
+import { describe, expect, it, match } from "@reactgjs/gest";
+import { defineOption } from "clify.js";
+import { ArgsInitPhase } from "../../../src/builder/args-init-phase";
+
+const WatchOpt = defineOption({
+  char: "w",
+  name: "watch",
+  type: "boolean",
+});
+
+const TargetOpt = defineOption({
+  name: "target",
+  type: "string",
+  default: "tarball",
+  validate(value) {
+    if (["tarball", "deb"].includes(value)) return "ok";
+    return { expected: "tarball or deb", message: "Unknown target." };
+  },
+});
+
+const EnvOpt = defineOption({
+  name: "env",
+  type: ["string"],
+});
+
+export default describe("ArgsInitPhase", () => {
+  it("should initialize the options with the given values", () => {
+    const init = new ArgsInitPhase({ watch: true, env: ["A=1", "B=2"] });
+
+    expect(init.option(WatchOpt).value).toBe(true);
+    expect(init.option(EnvOpt).value).toEqual(["A=1", "B=2"]);
+  });
+
+  it("should leave the undefined values unset", () => {
+    const init = new ArgsInitPhase({ watch: undefined, target: undefined });
+
+    const watch = init.option(WatchOpt);
+    const target = init.option(TargetOpt);
+
+    expect(watch.isSet).toBe(false);
+    expect(watch.value).toBeUndefined();
+    expect(target.isSet).toBe(false);
+    expect(target.value).toEqual("tarball");
+  });
+
+  it("should validate the values like the command line", () => {
+    const init = new ArgsInitPhase({ watch: "yes", target: "rpm" });
+
+    expect(() => init.option(WatchOpt)).toThrowMatch({
+      name: "ConfigError",
+      message: match.stringMatchingRegex(/expected 'boolean'.*: --watch/),
+    });
+    expect(() => init.option(TargetOpt)).toThrowMatch({
+      name: "ConfigError",
+      message: match.stringMatchingRegex(/Unknown target\.: --target/),
+    });
+  });
+
+  it("should not read the input", () => {
+    const init = new ArgsInitPhase({});
+
+    expect(() => init.input()).toThrow();
+    expect(() => init.inputStream()).toThrow();
+  });
+});
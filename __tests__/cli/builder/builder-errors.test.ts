@@ -0,0 +1,67 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  BuildError,
+  BuilderError,
+  ConfigError,
+} from "../../../src/builder/builder-errors";
+
+export default describe("builder-errors", () => {
+  it("should be builder errors", () => {
+    const configError = new ConfigError("Invalid config.", "outDir");
+    const buildError = new BuildError([], []);
+
+    expect(configError).toBeInstanceOf(BuilderError);
+    expect(configError.name).toEqual("ConfigError");
+    expect(configError.fieldPath).toEqual("outDir");
+    expect(buildError).toBeInstanceOf(BuilderError);
+    expect(buildError.name).toEqual("BuildError");
+  });
+
+  it("should list the esbuild errors with their locations", () => {
+    const error = new BuildError(
+      [
+        {
+          id: "",
+          pluginName: "",
+          text: "Could not resolve \"./app\"",
+          location: {
+            file: "src/index.tsx",
+            namespace: "file",
+            line: 3,
+            column: 16,
+            length: 7,
+            lineText: "import App from \"./app\";",
+            suggestion: "",
+          },
+          notes: [],
+          detail: undefined,
+        },
+        {
+          id: "",
+          pluginName: "react-gtk",
+          text: "Unsupported GTK version",
+          location: null,
+          notes: [],
+          detail: undefined,
+        },
+      ],
+      [],
+    );
+
+    expect(error.message).toEqual(
+      [
+        "Build failed with 2 errors:",
+        "  src/index.tsx:3:16: Could not resolve \"./app\"",
+        "  Unsupported GTK version",
+      ].join("\n"),
+    );
+  });
+
+  it("should keep the cause", () => {
+    const cause = new Error("Build failed");
+    const error = new BuildError([], [], { cause });
+
+    expect(error.cause).toBe(cause);
+    expect(error.message).toEqual("Build failed with 0 errors:\n");
+  });
+});
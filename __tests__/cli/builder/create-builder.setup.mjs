@@ -0,0 +1,10 @@
+export default {
+  mocks: {
+    events: "./__tests__/cli/mocks/events.ts",
+    "./src/config/parse-config": "./__tests__/cli/mocks/parse-config.ts",
+    "./src/programs/build-program": "./__tests__/cli/mocks/programs.ts",
+    "./src/programs/bundle-program": "./__tests__/cli/mocks/programs.ts",
+    "./src/programs/start-program": "./__tests__/cli/mocks/programs.ts",
+    "./src/utils/read-config": "./__tests__/cli/mocks/read-config.ts",
+  },
+};
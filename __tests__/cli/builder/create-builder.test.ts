@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import { defineOption } from "clify.js";
+import {
+  BuildError,
+  BuilderError,
+  ConfigError,
+} from "../../../src/builder/builder-errors";
+import type { BuildOutput } from "../../../src/builder/builder-events";
+import { createBuilder } from "../../../src/builder/create-builder";
+import { FakeProgram } from "../mocks/programs";
+
+const ModeOpt = defineOption({
+  name: "mode",
+  type: "string",
+});
+
+const config = {
+  applicationName: "myapp",
+  applicationVersion: "1.0.0",
+  entrypoint: "./src/index.tsx",
+  outDir: "./dist",
+};
+
+const output: BuildOutput = {
+  outputFiles: ["/project/dist/index.js"],
+  warnings: [],
+  errors: [],
+  resources: [],
+};
+
+const emitBuild = (program: FakeProgram, isRebuild = false) => {
+  program.events.emit("buildStart", { isRebuild });
+  program.events.emit("buildEnd", { isRebuild, duration: 100, output });
+};
+
+export default describe("Builder", () => {
+  beforeEach(() => {
+    FakeProgram.reset();
+  });
+
+  it("should return the output of the first build", async () => {
+    FakeProgram.run = (program) => emitBuild(program);
+
+    const builder = createBuilder(config, { cwd: "/project" });
+
+    expect(await builder.bundle()).toEqual(output);
+    expect(FakeProgram.instances[0]?.cwd).toEqual("/project");
+  });
+
+  it("should forward the events of the program", async () => {
+    const events: string[] = [];
+    FakeProgram.run = (program) => emitBuild(program);
+
+    const builder = createBuilder(config, { cwd: "/project" });
+    builder.on("buildStart", () => events.push("buildStart"));
+    builder.on("buildEnd", () => events.push("buildEnd"));
+    builder.on("rebuild", () => events.push("rebuild"));
+
+    await builder.bundle({ watch: true });
+    const program = FakeProgram.instances[0]!;
+    emitBuild(program, true);
+    program.events.emit("rebuild", { isRebuild: true, duration: 50, output });
+
+    expect(events).toEqual([
+      "buildStart",
+      "buildEnd",
+      "buildStart",
+      "buildEnd",
+      "rebuild",
+    ]);
+  });
+
+  it("should pass the options to the program", async () => {
+    FakeProgram.run = (program) => emitBuild(program);
+
+    const builder = createBuilder(config, {
+      cwd: "/project",
+      mode: "development",
+    });
+    await builder.start({ appArgs: ["--verbose"] });
+
+    const program = FakeProgram.instances[0]!;
+    const mode = program.init.option(ModeOpt);
+
+    expect(program.appArgs).toEqual(["--verbose"]);
+    expect(mode.value).toEqual("development");
+  });
+
+  it("should throw the esbuild failures as build errors", async () => {
+    FakeProgram.run = () => {
+      throw Object.assign(new Error("Build failed with 1 error"), {
+        errors: [{ text: "Could not resolve \"./app\"" }],
+        warnings: [],
+      });
+    };
+
+    const builder = createBuilder(config, { cwd: "/project" });
+
+    await expect(builder.bundle()).toRejectMatch({
+      name: "BuildError",
+      errors: [{ text: "Could not resolve \"./app\"" }],
+    });
+    expect(FakeProgram.instances[0]?.isClosed).toBe(true);
+  });
+
+  it("should throw a config error for an invalid config", async () => {
+    const builder = createBuilder(
+      { ...config, applicationName: 1 } as any,
+      { cwd: "/project" },
+    );
+
+    const error = await builder.build().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.fieldPath).toMatchRegex(/applicationName/);
+  });
+
+  it("should wrap the other errors", async () => {
+    FakeProgram.run = () => {
+      throw new Error("Meson is not installed.");
+    };
+
+    const builder = createBuilder(config, { cwd: "/project" });
+    const error = await builder.build().catch((e) => e);
+
+    expect(error).toBeInstanceOf(BuilderError);
+    expect(error).not.toBeInstanceOf(BuildError);
+    expect(error.message).toEqual("Meson is not installed.");
+  });
+
+  it("should emit the errors that happen after a build", async () => {
+    const errors: BuilderError[] = [];
+    FakeProgram.run = (program) => emitBuild(program);
+
+    const builder = createBuilder(config, { cwd: "/project" });
+    builder.on("error", (e) => errors.push(e));
+
+    await builder.start({ watch: true });
+    FakeProgram.instances[0]!.events.emit(
+      "error",
+      new Error("The app could not be started."),
+    );
+
+    expect(errors.length).toEqual(1);
+    expect(errors[0]).toBeInstanceOf(BuilderError);
+    expect(errors[0]?.message).toEqual("The app could not be started.");
+  });
+
+  it("should close the programs when closed", async () => {
+    FakeProgram.run = (program) => emitBuild(program);
+
+    const builder = createBuilder(config, { cwd: "/project" });
+    await builder.bundle({ watch: true });
+    await builder.start({ watch: true });
+    await builder.close();
+
+    expect(FakeProgram.instances.map((p) => p.isClosed)).toEqual([true, true]);
+  });
+});
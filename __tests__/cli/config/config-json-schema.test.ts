@@ -0,0 +1,33 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { getConfigJsonSchema } from "../../../src/config/config-json-schema";
+
+export default describe("getConfigJsonSchema", () => {
+  it("should describe the options of the config file", () => {
+    const schema = getConfigJsonSchema() ?? {};
+
+    expect(schema).toMatch({ type: "object", title: "ConfigFile" });
+    expect(Object.keys(schema.properties ?? {})).toContain(
+      "applicationName",
+      "entrypoint",
+      "extends",
+      "modes",
+    );
+  });
+
+  it("should not require any options, they can come from the base", () => {
+    expect(getConfigJsonSchema()?.required).toEqual([]);
+  });
+
+  it("should reject the unknown options, also in the modes", () => {
+    const schema = getConfigJsonSchema() ?? {};
+
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties?.modes).toMatch({
+      additionalProperties: false,
+      properties: {
+        development: { additionalProperties: false },
+        production: { additionalProperties: false },
+      },
+    });
+  });
+});
@@ -0,0 +1,5 @@
+export default {
+  mocks: {
+    path: "./src/polyfills/path.ts",
+  },
+};
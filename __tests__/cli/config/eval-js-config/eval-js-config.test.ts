@@ -0,0 +1,33 @@
+import { describe, expect, it, match } from "@reactgjs/gest";
+import * as cjs from "../../../../src/config/eval-js-config/eval-js-config.cjs";
+import * as esm from "../../../../src/config/eval-js-config/eval-js-config.esm";
+
+export default describe("eval-js-config", () => {
+  describe("assertConfigFormat", () => {
+    it("should reject the CommonJS configs in ESM mode", () => {
+      for (const config of ["/app/config.cjs", "/app/config.cts"]) {
+        expect(() => esm.assertConfigFormat(config)).toThrowMatch({
+          message: match.stringMatchingRegex(/running in ESM mode/),
+        });
+      }
+    });
+
+    it("should reject the ESM configs in CommonJS mode", () => {
+      for (const config of ["/app/config.mjs", "/app/config.mts"]) {
+        expect(() => cjs.assertConfigFormat(config)).toThrowMatch({
+          message: match.stringMatchingRegex(/running in CommonJS mode/),
+        });
+      }
+    });
+
+    it("should accept the configs that can be loaded in the mode", () => {
+      for (const config of ["/app/config.js", "/app/config.ts"]) {
+        expect(() => esm.assertConfigFormat(config)).not.toThrow();
+        expect(() => cjs.assertConfigFormat(config)).not.toThrow();
+      }
+
+      expect(() => esm.assertConfigFormat("/app/config.mts")).not.toThrow();
+      expect(() => cjs.assertConfigFormat("/app/config.cts")).not.toThrow();
+    });
+  });
+});
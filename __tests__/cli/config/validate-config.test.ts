@@ -0,0 +1,106 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  ConfigValidationError,
+  getConfigWarnings,
+  validateConfig,
+} from "../../../src/config/validate-config";
+
+const config = {
+  applicationName: "example-app",
+  applicationVersion: "1.0.0",
+  entrypoint: "./src/start.tsx",
+  outDir: "./dist",
+};
+
+const getError = (value: unknown) => {
+  try {
+    validateConfig(value);
+  } catch (e) {
+    return e;
+  }
+};
+
+export default describe("validate-config", () => {
+  describe("validateConfig", () => {
+    it("should accept a valid config", () => {
+      expect(() => validateConfig(config)).not.toThrow();
+      expect(() =>
+        validateConfig({ ...config, giVersions: { Gtk: "3.0" } })
+      ).not.toThrow();
+    });
+
+    it("should report the missing required properties", () => {
+      const { entrypoint: _, ...value } = config;
+      const error = getError(value);
+
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect(error).toMatch({ fieldPath: "entrypoint" });
+      expect((error as Error).message.split("\n")[0]).toEqual(
+        "Config property 'entrypoint' is required.",
+      );
+    });
+
+    it("should report the path, expected type and received value", () => {
+      const error = getError({ ...config, giVersions: { Gtk: "4.0" } });
+
+      expect(error).toMatch({ fieldPath: "giVersions.Gtk" });
+
+      const lines = (error as Error).message.split("\n");
+      expect(lines.slice(0, 3)).toEqual([
+        "Config property 'giVersions.Gtk' is invalid.",
+        "  Expected: \"3.0\"",
+        "  Received: \"4.0\"",
+      ]);
+    });
+
+    it("should include the description of the property", () => {
+      const error = getError({ ...config, applicationVersion: 1 });
+
+      expect((error as Error).message).toMatchRegex(
+        /Received: 1\n\n  The version of the application\./,
+      );
+    });
+
+    it("should shorten long received values", () => {
+      const error = getError({ ...config, outDir: ["a".repeat(200)] });
+      const received = (error as Error).message
+        .split("\n")
+        .find((line) => line.startsWith("  Received: "));
+
+      expect(received?.endsWith("...")).toEqual(true);
+      expect(received!.length).toEqual("  Received: ".length + 80);
+    });
+
+    it("should reject values that are not objects", () => {
+      expect(() => validateConfig(null)).toThrow();
+      expect(() => validateConfig("config")).toThrow();
+    });
+  });
+
+  describe("getConfigWarnings", () => {
+    it("should not warn about the known properties", () => {
+      expect(getConfigWarnings({ ...config, envVars: { defaults: {} } }))
+        .toEqual([]);
+    });
+
+    it("should warn about the unknown properties with a suggestion", () => {
+      expect(getConfigWarnings({ ...config, polyfill: {} })).toEqual([
+        "Unknown config property 'polyfill'. Did you mean 'polyfills'?",
+      ]);
+    });
+
+    it("should warn about the unknown nested properties", () => {
+      expect(
+        getConfigWarnings({ ...config, envVars: { defualts: {} } }),
+      ).toEqual([
+        "Unknown config property 'envVars.defualts'. Did you mean 'defaults'?",
+      ]);
+    });
+
+    it("should not suggest properties that are not similar", () => {
+      expect(getConfigWarnings({ ...config, somethingElse: true })).toEqual([
+        "Unknown config property 'somethingElse'.",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  CrashTracker,
+} from "../../../../src/esbuild-plugins/start-app/crash-tracker";
+
+export default describe("CrashTracker", () => {
+  it("should detect a crash loop after three fast crashes in a row", () => {
+    const crashes = new CrashTracker();
+
+    crashes.recordCrash(100);
+    crashes.recordCrash(200);
+    expect(crashes.isCrashLooping).toBe(false);
+
+    crashes.recordCrash(300);
+    expect(crashes.isCrashLooping).toBe(true);
+    expect(crashes.fastCrashCount).toBe(3);
+  });
+
+  it("should start counting again after a crash later than the window", () => {
+    const crashes = new CrashTracker();
+
+    crashes.recordCrash(100);
+    crashes.recordCrash(100);
+    crashes.recordCrash(10000);
+    crashes.recordCrash(100);
+
+    expect(crashes.fastCrashCount).toBe(2);
+    expect(crashes.isCrashLooping).toBe(false);
+  });
+
+  it("should increase the delay of the restarts up to the max", () => {
+    const crashes = new CrashTracker();
+    const delays: number[] = [];
+
+    for (let i = 0; i < 8; i++) {
+      crashes.recordCrash(10000);
+      delays.push(crashes.nextRestartDelay());
+    }
+
+    expect(delays).toEqual([0, 1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+  });
+
+  it("should restart immediately an app that ran for a long time", () => {
+    const crashes = new CrashTracker();
+
+    crashes.recordCrash(10000);
+    crashes.nextRestartDelay();
+    crashes.recordCrash(10000);
+    expect(crashes.nextRestartDelay()).toBe(1000);
+
+    crashes.recordCrash(120000);
+    expect(crashes.nextRestartDelay()).toBe(0);
+  });
+
+  it("should forget the crashes on reset", () => {
+    const crashes = new CrashTracker();
+
+    crashes.recordCrash(100);
+    crashes.recordCrash(100);
+    crashes.recordCrash(100);
+    crashes.nextRestartDelay();
+    crashes.nextRestartDelay();
+    crashes.reset();
+
+    expect(crashes.isCrashLooping).toBe(false);
+    expect(crashes.nextRestartDelay()).toBe(0);
+  });
+});
@@ -0,0 +1,27 @@
+import { Buffer } from "buffer";
+
+/**
+ * Mock of the `crypto` module. The digest is a 32-bit FNV-1a hash of
+ * the data, which is enough to tell different data apart in tests.
+ */
+const createHash = (_: string) => {
+  let hash = 0x811c9dc5;
+
+  const hasher = {
+    update(data: string | Uint8Array) {
+      for (const byte of Buffer.from(data)) {
+        hash = Math.imul(hash ^ byte, 0x01000193) >>> 0;
+      }
+      return hasher;
+    },
+    digest(_: "hex") {
+      return hash.toString(16).padStart(8, "0");
+    },
+  };
+
+  return hasher;
+};
+
+export { createHash };
+
+export default { createHash };
@@ -0,0 +1,46 @@
+type Listener = (...args: any[]) => void;
+
+/**
+ * Mock of the `events` module, with only the methods of the
+ * `EventEmitter` that are used by the CLI.
+ */
+export class EventEmitter<_Events = {}> {
+  private listeners = new Map<string | symbol, Listener[]>();
+
+  on(event: string | symbol, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  once(event: string | symbol, listener: Listener) {
+    const onceListener = (...args: any[]) => {
+      this.off(event, onceListener);
+      listener(...args);
+    };
+    return this.on(event, onceListener);
+  }
+
+  off(event: string | symbol, listener: Listener) {
+    this.listeners.set(
+      event,
+      (this.listeners.get(event) ?? []).filter((l) => l !== listener),
+    );
+    return this;
+  }
+
+  emit(event: string | symbol, ...args: any[]) {
+    const listeners = this.listeners.get(event) ?? [];
+
+    if (event === "error" && listeners.length === 0) {
+      throw args[0];
+    }
+
+    for (const listener of listeners) {
+      listener(...args);
+    }
+
+    return listeners.length > 0;
+  }
+}
+
+export default { EventEmitter };
@@ -0,0 +1,51 @@
+/**
+ * Mock of the `fs/promises` module working on the `memoryFs`.
+ */
+
+import { memoryFs } from "./memory-fs";
+
+const readFile = async (filePath: string, encoding?: BufferEncoding) => {
+  const content = memoryFs.readFile(filePath);
+  return encoding ? content.toString(encoding) : content;
+};
+
+const writeFile = async (filePath: string, content: string | Uint8Array) => {
+  memoryFs.writeFile(filePath, content);
+};
+
+const copyFile = async (source: string, destination: string) => {
+  memoryFs.copyFile(source, destination);
+};
+
+const readdir = async (
+  dirPath: string,
+  options: { withFileTypes?: boolean } = {},
+) => {
+  const entries = memoryFs.readDir(dirPath);
+
+  if (!options.withFileTypes) {
+    return entries.map((entry) => entry.name);
+  }
+
+  return entries.map((entry) => ({
+    name: entry.name,
+    isFile: () => memoryFs.isFile(entry.path),
+    isDirectory: () => memoryFs.isDir(entry.path),
+  }));
+};
+
+const mkdir = async (dirPath: string, _?: { recursive?: boolean }) => {
+  memoryFs.mkdir(dirPath);
+};
+
+const rm = async (filePath: string, options?: { force?: boolean }) => {
+  memoryFs.rm(filePath, options);
+};
+
+const rmdir = async (dirPath: string) => {
+  memoryFs.rmdir(dirPath);
+};
+
+export { copyFile, mkdir, readdir, readFile, rm, rmdir, writeFile };
+
+export default { copyFile, mkdir, readdir, readFile, rm, rmdir, writeFile };
@@ -0,0 +1,20 @@
+/**
+ * Mock of the synchronous functions of the `fs` module working on
+ * the `memoryFs`.
+ */
+
+import { memoryFs } from "./memory-fs";
+
+const existsSync = (filePath: string) => memoryFs.exists(filePath);
+
+const readFileSync = (filePath: string, encoding?: BufferEncoding) => {
+  const content = memoryFs.readFile(filePath);
+  return encoding ? content.toString(encoding) : content;
+};
+
+const readdirSync = (dirPath: string) =>
+  memoryFs.readDir(dirPath).map((entry) => entry.name);
+
+export { existsSync, readdirSync, readFileSync };
+
+export default { existsSync, readdirSync, readFileSync };
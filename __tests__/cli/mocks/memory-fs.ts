@@ -0,0 +1,134 @@
+import { Buffer } from "buffer";
+
+type FsError = Error & { code: string; path: string };
+
+const createFsError = (code: string, operation: string, filePath: string) => {
+  const error = new Error(`${code}: ${operation} '${filePath}'`) as FsError;
+  error.code = code;
+  error.path = filePath;
+  return error;
+};
+
+const dirname = (filePath: string) => {
+  const idx = filePath.lastIndexOf("/");
+  return idx <= 0 ? "/" : filePath.slice(0, idx);
+};
+
+const normalize = (filePath: string) =>
+  filePath.length > 1 ? filePath.replace(/\/+$/, "") : filePath;
+
+/**
+ * File system kept in memory, shared by the `fs` and `fs/promises`
+ * mocks. Tests create the files they need before calling the tested
+ * function, and check the files and the performed operations after.
+ */
+export class MemoryFs {
+  private files = new Map<string, Buffer>();
+  private dirs = new Set<string>(["/"]);
+
+  /** Operations that modified the file system, in order. */
+  readonly operations: string[] = [];
+
+  reset() {
+    this.files.clear();
+    this.dirs = new Set(["/"]);
+    this.operations.splice(0);
+  }
+
+  addDir(dirPath: string) {
+    for (let d = normalize(dirPath); !this.dirs.has(d); d = dirname(d)) {
+      this.dirs.add(d);
+    }
+  }
+
+  addFile(filePath: string, content: string | Uint8Array) {
+    this.addDir(dirname(filePath));
+    this.files.set(normalize(filePath), Buffer.from(content));
+  }
+
+  isFile(filePath: string) {
+    return this.files.has(normalize(filePath));
+  }
+
+  isDir(filePath: string) {
+    return this.dirs.has(normalize(filePath));
+  }
+
+  exists(filePath: string) {
+    return this.isFile(filePath) || this.isDir(filePath);
+  }
+
+  readFile(filePath: string) {
+    const content = this.files.get(normalize(filePath));
+
+    if (!content) {
+      throw createFsError("ENOENT", "open", filePath);
+    }
+
+    return content;
+  }
+
+  writeFile(filePath: string, content: string | Uint8Array) {
+    if (!this.isDir(dirname(normalize(filePath)))) {
+      throw createFsError("ENOENT", "open", filePath);
+    }
+
+    this.files.set(normalize(filePath), Buffer.from(content));
+    this.operations.push(`write ${filePath}`);
+  }
+
+  copyFile(source: string, destination: string) {
+    this.writeFile(destination, this.readFile(source));
+    this.operations.splice(-1, 1, `copy ${source} ${destination}`);
+  }
+
+  /**
+   * Lists the names of the files and directories in the directory,
+   * in the order in which they were added.
+   */
+  readDir(dirPath: string) {
+    const dir = normalize(dirPath);
+
+    if (!this.isDir(dir)) {
+      throw createFsError("ENOENT", "scandir", dirPath);
+    }
+
+    const prefix = dir === "/" ? "/" : `${dir}/`;
+
+    return [...this.dirs, ...this.files.keys()]
+      .filter((p) => p !== dir && dirname(p) === dir)
+      .map((p) => ({ name: p.slice(prefix.length), path: p }));
+  }
+
+  mkdir(dirPath: string) {
+    this.addDir(dirPath);
+    this.operations.push(`mkdir ${dirPath}`);
+  }
+
+  rm(filePath: string, options: { force?: boolean } = {}) {
+    const file = normalize(filePath);
+
+    if (this.files.delete(file)) {
+      this.operations.push(`rm ${filePath}`);
+    } else if (!options.force) {
+      throw createFsError("ENOENT", "rm", filePath);
+    }
+  }
+
+  rmdir(dirPath: string) {
+    const dir = normalize(dirPath);
+
+    if (!this.isDir(dir)) {
+      throw createFsError("ENOENT", "rmdir", dirPath);
+    }
+
+    if (this.readDir(dir).length > 0) {
+      throw createFsError("ENOTEMPTY", "rmdir", dirPath);
+    }
+
+    this.dirs.delete(dir);
+    this.operations.push(`rmdir ${dirPath}`);
+  }
+}
+
+export const memoryFs = new MemoryFs();
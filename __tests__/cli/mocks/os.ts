@@ -0,0 +1,11 @@
+/**
+ * Mock of the `os` module, with a fixed home directory.
+ */
+
+export const HOME_DIR = "/home/user";
+
+const homedir = () => HOME_DIR;
+
+export { homedir };
+
+export default { homedir };
@@ -0,0 +1,7 @@
+/**
+ * Mock of the `parse-config` module, the configs given to the
+ * builder have no overrides or extended configs to resolve.
+ */
+
+export const resolveConfig = async (config: unknown) =>
+  config as Record<string, unknown>;
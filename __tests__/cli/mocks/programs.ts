@@ -0,0 +1,45 @@
+import { EventEmitter } from "events";
+import type { ArgsInitPhase } from "../../../src/builder/args-init-phase";
+import type { ProgramEvents } from "../../../src/builder/builder-events";
+
+type Run = (program: FakeProgram, config: unknown) => void | Promise<void>;
+
+/**
+ * Mock of the programs run by the builder. Instead of building the
+ * app, the programs call `FakeProgram.run`, which is set by the tests
+ * to emit the events or to fail.
+ */
+export class FakeProgram {
+  static run: Run = () => {};
+  /** Programs created since the last `reset()`. */
+  static instances: FakeProgram[] = [];
+
+  static reset() {
+    FakeProgram.run = () => {};
+    FakeProgram.instances = [];
+  }
+
+  readonly events = new EventEmitter<ProgramEvents>();
+  cwd = "";
+  appArgs: string[] = [];
+  packages: string[] = [];
+  isClosed = false;
+
+  constructor(readonly init: ArgsInitPhase) {
+    FakeProgram.instances.push(this);
+  }
+
+  async runEmbedded(config: unknown) {
+    await FakeProgram.run(this, config);
+  }
+
+  async close() {
+    this.isClosed = true;
+  }
+}
+
+export class BundleProgram extends FakeProgram {}
+
+export class BuildProgram extends FakeProgram {}
+
+export class StartProgram extends FakeProgram {}
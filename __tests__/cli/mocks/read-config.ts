@@ -0,0 +1,14 @@
+/**
+ * Mock of the `read-config` module, the configs given to the builder
+ * are used as they are and there is no config file to read.
+ */
+
+import type { Config } from "../../../src/config/config-type";
+
+export const readConfig = async () => {
+  throw new Error("No config file found.");
+};
+
+export const prepareConfig = (config: Config) => config;
+
+export const applyConfigDefaults = (config: Config) => config;
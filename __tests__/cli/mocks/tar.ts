@@ -0,0 +1,29 @@
+import { memoryFs } from "./memory-fs";
+
+type CreateOptions = {
+  file: string;
+  cwd?: string;
+  [option: string]: unknown;
+};
+
+/**
+ * Archives created with the `tar` mock, the archive file itself only
+ * contains the list of the entries.
+ */
+export const createdArchives: Array<{
+  options: CreateOptions;
+  entries: string[];
+}> = [];
+
+/**
+ * Mock of the `tar` package, records the options and the entries of
+ * the created archives.
+ */
+const create = async (options: CreateOptions, entries: string[]) => {
+  createdArchives.push({ options, entries });
+  memoryFs.writeFile(options.file, entries.join("\n"));
+};
+
+export { create };
+
+export default { create };
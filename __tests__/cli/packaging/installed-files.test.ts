@@ -0,0 +1,82 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { getInstalledFiles } from "../../../src/packaging/installed-files";
+
+const params = {
+  appID: "com.example.myapp",
+  packageName: "myapp",
+};
+
+export default describe("getInstalledFiles", () => {
+  it("should list the files installed by the data and src templates", () => {
+    expect(getInstalledFiles(params)).toEqual([
+      { dir: "bindir", path: "myapp" },
+      { dir: "datadir", path: "com.example.myapp/com.example.myapp" },
+      {
+        dir: "datadir",
+        path: "com.example.myapp/com.example.myapp.src.gresource",
+      },
+      {
+        dir: "datadir",
+        path: "com.example.myapp/com.example.myapp.data.gresource",
+      },
+      {
+        dir: "datadir",
+        path: "glib-2.0/schemas/com.example.myapp.gschema.xml",
+      },
+      { dir: "datadir", path: "applications/com.example.myapp.desktop" },
+      { dir: "datadir", path: "metainfo/com.example.myapp.appdata.xml" },
+      { dir: "datadir", path: "dbus-1/services/com.example.myapp.service" },
+    ]);
+  });
+
+  it("should list the icons of all the sizes", () => {
+    const files = getInstalledFiles({
+      ...params,
+      icon: { format: "svg", symbolic: true, sizes: [16, 512] },
+    });
+
+    expect(files.slice(8)).toEqual([
+      {
+        dir: "datadir",
+        path: "icons/hicolor/scalable/apps/com.example.myapp.svg",
+      },
+      {
+        dir: "datadir",
+        path: "icons/hicolor/symbolic/apps/com.example.myapp-symbolic.svg",
+      },
+      {
+        dir: "datadir",
+        path: "icons/hicolor/16x16/apps/com.example.myapp.png",
+      },
+      {
+        dir: "datadir",
+        path: "icons/hicolor/512x512/apps/com.example.myapp.png",
+      },
+    ]);
+  });
+
+  it("should list the extra files relative to their install dirs", () => {
+    const files = getInstalledFiles({
+      ...params,
+      extraFiles: [
+        { path: "bindir/myapp-helper", installDir: "bindir", executable: true },
+        {
+          path: "datadir/mime/packages/myapp.xml",
+          installDir: "datadir",
+          executable: false,
+        },
+        {
+          path: "pkgdatadir/presets/default.json",
+          installDir: "pkgdatadir",
+          executable: false,
+        },
+      ],
+    });
+
+    expect(files.slice(8)).toEqual([
+      { dir: "bindir", path: "myapp-helper" },
+      { dir: "datadir", path: "mime/packages/myapp.xml" },
+      { dir: "datadir", path: "com.example.myapp/presets/default.json" },
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  getDataDesktopEntry,
+} from "../../../../../src/packaging/templates/data/desktop-entry";
+
+export default describe("getDataDesktopEntry", () => {
+  it("should end the lists with a semicolon", () => {
+    const entry = getDataDesktopEntry({
+      friendlyName: "My App",
+      appID: "com.example.myapp",
+      categories: ["Utility", "GTK"],
+      keywords: ["notes"],
+    });
+
+    expect(entry.split("\n")).toContain(
+      "Categories=Utility;GTK;",
+      "Keywords=gtk;gjs;notes;",
+    );
+  });
+
+  it("should escape the semicolons and backslashes in the lists", () => {
+    const entry = getDataDesktopEntry({
+      friendlyName: "My App",
+      appID: "com.example.myapp",
+      categories: ["A;B"],
+      keywords: ["back\\slash", "semi;colon"],
+    });
+
+    expect(entry.split("\n")).toContain(
+      "Categories=A\\;B;",
+      "Keywords=gtk;gjs;back\\\\slash;semi\\;colon;",
+    );
+  });
+
+  it("should skip the categories when there are none", () => {
+    const entry = getDataDesktopEntry({
+      friendlyName: "My App",
+      appID: "com.example.myapp",
+      categories: [],
+    });
+
+    expect(entry).not.toMatchRegex(/^Categories=/m);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  getDebControl,
+  getDebDepends,
+  getDebGirPackage,
+} from "../../../../../src/packaging/templates/deb/control";
+
+export default describe("deb control", () => {
+  describe("getDebGirPackage", () => {
+    it("should follow the gir1.2 naming scheme", () => {
+      expect(getDebGirPackage("Gtk", "3.0")).toEqual("gir1.2-gtk-3.0");
+      expect(getDebGirPackage("Soup", "2.4")).toEqual("gir1.2-soup-2.4");
+    });
+
+    it("should map the libraries packaged under other names", () => {
+      expect(getDebGirPackage("GLib", "2.0")).toEqual("gir1.2-glib-2.0");
+      expect(getDebGirPackage("GObject", "2.0")).toEqual("gir1.2-glib-2.0");
+      expect(getDebGirPackage("Gdk", "3.0")).toEqual("gir1.2-gtk-3.0");
+      expect(getDebGirPackage("cairo", "1.0")).toEqual("gir1.2-freedesktop");
+    });
+  });
+
+  describe("getDebDepends", () => {
+    it("should depend on gjs and the typelib packages", () => {
+      expect(getDebDepends({ Gtk: "3.0", Gio: "2.0", GLib: "2.0" })).toEqual([
+        "gjs",
+        "gir1.2-gtk-3.0",
+        "gir1.2-glib-2.0",
+      ]);
+    });
+
+    it("should add the additional dependencies without duplicates", () => {
+      expect(
+        getDebDepends({ Gtk: "3.0" }, ["libnotify4", "gjs", "libnotify4"]),
+      ).toEqual(["gjs", "gir1.2-gtk-3.0", "libnotify4"]);
+    });
+  });
+
+  describe("getDebControl", () => {
+    const params = {
+      packageName: "example-app",
+      version: "1.0.0-1",
+      maintainer: "Jane Doe <jane@example.com>",
+      section: "misc",
+      priority: "optional",
+      installedSize: 12,
+      depends: ["gjs", "gir1.2-gtk-3.0"],
+      summary: "An example app",
+    };
+
+    it("should render the control fields", () => {
+      expect(getDebControl(params)).toEqual(
+        [
+          "Package: example-app",
+          "Version: 1.0.0-1",
+          "Architecture: all",
+          "Maintainer: Jane Doe <jane@example.com>",
+          "Installed-Size: 12",
+          "Depends: gjs, gir1.2-gtk-3.0",
+          "Section: misc",
+          "Priority: optional",
+          "Description: An example app",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should format the extended description", () => {
+      const control = getDebControl({
+        ...params,
+        homepage: "https://example.com",
+        description: ["First paragraph,\n  second line.", "Second paragraph."],
+      });
+
+      const description = [
+        "Description: An example app",
+        " First paragraph,",
+        " second line.",
+        " .",
+        " Second paragraph.",
+        "",
+      ].join("\n");
+
+      expect(control).toMatchRegex(/\nHomepage: https:\/\/example\.com\n/);
+      expect(control.endsWith(description)).toEqual(true);
+    });
+  });
+});
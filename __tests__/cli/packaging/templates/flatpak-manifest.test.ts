@@ -0,0 +1,50 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  getFlatpakManifest,
+} from "../../../../src/packaging/templates/flatpak-manifest";
+
+const params = {
+  appID: "com.example.myapp",
+  packageName: "myapp",
+  runtimeVersion: "46",
+  tarball: { path: "myapp-1.0.0.tar.gz", sha256: "abc" },
+};
+
+export default describe("getFlatpakManifest", () => {
+  it("should end both formats with a new line", () => {
+    const json = getFlatpakManifest(params);
+    const yaml = getFlatpakManifest({ ...params, format: "yml" });
+
+    expect(json.endsWith("}\n")).toBe(true);
+    expect(yaml.endsWith("\n")).toBe(true);
+    expect(yaml.endsWith("\n\n")).toBe(false);
+  });
+
+  it("should add the finish args of the permissions once", () => {
+    const manifest = JSON.parse(
+      getFlatpakManifest({
+        ...params,
+        permissions: { network: true, talkNames: ["org.freedesktop.Flatpak"] },
+        finishArgs: ["--share=network", "--socket=pulseaudio"],
+      }),
+    );
+
+    expect(manifest["finish-args"]).toEqual([
+      "--share=ipc",
+      "--socket=fallback-x11",
+      "--socket=wayland",
+      "--device=dri",
+      "--share=network",
+      "--talk-name=org.freedesktop.Flatpak",
+      "--socket=pulseaudio",
+    ]);
+  });
+
+  it("should point the module at the tarball", () => {
+    const manifest = JSON.parse(getFlatpakManifest(params));
+
+    expect(manifest.modules[0].sources).toEqual([
+      { type: "archive", path: "myapp-1.0.0.tar.gz", sha256: "abc" },
+    ]);
+  });
+});
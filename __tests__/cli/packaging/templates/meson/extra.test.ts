@@ -0,0 +1,54 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  getExtraMesonBuild,
+} from "../../../../../src/packaging/templates/meson/extra";
+
+export default describe("getExtraMesonBuild", () => {
+  it("should install the files into their install subdirectories", () => {
+    const mesonBuild = getExtraMesonBuild({
+      files: [
+        { path: "bindir/myapp-helper", installDir: "bindir", executable: true },
+        {
+          path: "pkgdatadir/presets/dark/theme.json",
+          installDir: "pkgdatadir",
+          executable: false,
+        },
+      ],
+    });
+
+    expect(mesonBuild).toEqual(
+      [
+        "install_data(",
+        "  'bindir/myapp-helper',",
+        "  install_dir: get_option('bindir'),",
+        "  install_mode: 'rwxr-xr-x'",
+        ")",
+        "",
+        "install_data(",
+        "  'pkgdatadir/presets/dark/theme.json',",
+        "  install_dir: join_paths(pkgdatadir, 'presets', 'dark'),",
+        "  install_mode: 'rw-r--r--'",
+        ")",
+      ].join("\n"),
+    );
+  });
+
+  it("should escape the quotes and backslashes in the paths", () => {
+    const mesonBuild = getExtraMesonBuild({
+      files: [
+        {
+          path: "datadir/it's\\here/a'b.txt",
+          installDir: "datadir",
+          executable: false,
+        },
+      ],
+    });
+
+    expect(mesonBuild).toMatchRegex(
+      /^ {2}'datadir\/it\\'s\\\\here\/a\\'b\.txt',$/m,
+    );
+    expect(mesonBuild).toMatchRegex(
+      /install_dir: join_paths\(get_option\('datadir'\), 'it\\'s\\\\here'\)/,
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { getRpmSpec } from "../../../../src/packaging/templates/rpm-spec";
+
+const giImports: Array<[string, string | undefined]> = [
+  ["Gtk", "3.0"],
+  ["Soup", undefined],
+];
+
+const params = {
+  appID: "com.example.myapp",
+  packageName: "myapp",
+  version: "1.2.0",
+  license: "MIT",
+  summary: "An example app",
+  description: ["First paragraph.", "Second paragraph."],
+  tarballName: "myapp-1.2.0.tar.gz",
+  giImports,
+  installedFiles: [
+    { dir: "bindir" as const, path: "myapp" },
+    { dir: "datadir" as const, path: "com.example.myapp/com.example.myapp" },
+  ],
+  hasTranslations: false,
+};
+
+const getSection = (spec: string, name: string) =>
+  spec.split(`\n${name}`)[1]?.split("\n\n")[0]?.trim();
+
+export default describe("getRpmSpec", () => {
+  it("should require the typelibs of the imported libraries", () => {
+    const spec = getRpmSpec(params);
+
+    expect(spec).toMatchRegex(/^Requires: +gjs$/m);
+    expect(spec).toMatchRegex(/^Requires: +typelib\(Gtk\) = 3\.0$/m);
+    expect(spec).toMatchRegex(/^Requires: +typelib\(Soup\)$/m);
+  });
+
+  it("should list the installed files under the directory macros", () => {
+    expect(getSection(getRpmSpec(params), "%files")).toEqual(
+      [
+        "%dir %{_datadir}/com.example.myapp",
+        "%{_bindir}/myapp",
+        "%{_datadir}/com.example.myapp/com.example.myapp",
+      ].join("\n"),
+    );
+  });
+
+  it("should include the translations only if there are any", () => {
+    const withoutTranslations = getRpmSpec(params);
+    const withTranslations = getRpmSpec({ ...params, hasTranslations: true });
+
+    expect(withoutTranslations).not.toMatchRegex(/%find_lang/);
+    expect(withTranslations).toMatchRegex(
+      /^%meson_install\n%find_lang com\.example\.myapp$/m,
+    );
+    expect(withTranslations).toMatchRegex(
+      /^%files -f com\.example\.myapp\.lang$/m,
+    );
+  });
+
+  it("should add the URL only if the homepage is set", () => {
+    expect(getRpmSpec(params)).not.toMatchRegex(/^URL:/m);
+    expect(
+      getRpmSpec({ ...params, homepage: "https://example.com" }),
+    ).toMatchRegex(/^URL: +https:\/\/example\.com$/m);
+  });
+
+  it("should separate the description paragraphs", () => {
+    expect(getRpmSpec(params)).toMatchRegex(
+      /^%description\nFirst paragraph\.\n\nSecond paragraph\.\n/m,
+    );
+  });
+});
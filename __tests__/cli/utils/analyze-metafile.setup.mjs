@@ -0,0 +1,6 @@
+export default {
+  mocks: {
+    fs: "./__tests__/cli/mocks/fs.ts",
+    path: "./src/polyfills/path.ts",
+  },
+};
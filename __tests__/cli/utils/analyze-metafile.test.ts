@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import type esbuild from "esbuild";
+import {
+  analyzeMetafile,
+  PROJECT_PACKAGE,
+  VIRTUAL_PACKAGE,
+} from "../../../src/utils/analyze-metafile";
+import { memoryFs } from "../mocks/memory-fs";
+
+const input = (
+  imports: string[] = [],
+): esbuild.Metafile["inputs"][string] => ({
+  bytes: 0,
+  imports: imports.map((path) => ({ path, kind: "import-statement" })),
+});
+
+const metafile: esbuild.Metafile = {
+  inputs: {
+    "src/index.ts": input([
+      "src/app.tsx",
+      "node_modules/@reactgjs/react-gtk/dist/esm/polyfills/fetch.mjs",
+    ]),
+    "src/app.tsx": input([
+      "node_modules/lodash/index.js",
+      "node_modules/ui-kit/index.js",
+    ]),
+    "node_modules/lodash/index.js": input(),
+    "node_modules/ui-kit/index.js": input([
+      "node_modules/ui-kit/node_modules/lodash/index.js",
+    ]),
+    "node_modules/ui-kit/node_modules/lodash/index.js": input(),
+    "node_modules/@reactgjs/react-gtk/dist/esm/polyfills/fetch.mjs": input([
+      "node_modules/whatwg-url/index.js",
+      "node_modules/lodash/index.js",
+    ]),
+    "node_modules/whatwg-url/index.js": input(),
+    "gapp:env": input(),
+  },
+  outputs: {
+    "dist/index.js": {
+      bytes: 1000,
+      entryPoint: "src/index.ts",
+      imports: [],
+      exports: [],
+      inputs: {
+        "src/index.ts": { bytesInOutput: 50 },
+        "src/app.tsx": { bytesInOutput: 150 },
+        "node_modules/lodash/index.js": { bytesInOutput: 300 },
+        "node_modules/ui-kit/index.js": { bytesInOutput: 100 },
+        "node_modules/ui-kit/node_modules/lodash/index.js": {
+          bytesInOutput: 200,
+        },
+        "node_modules/@reactgjs/react-gtk/dist/esm/polyfills/fetch.mjs": {
+          bytesInOutput: 120,
+        },
+        "node_modules/whatwg-url/index.js": { bytesInOutput: 70 },
+        "gapp:env": { bytesInOutput: 10 },
+      },
+    },
+  },
+};
+
+const analyze = () =>
+  analyzeMetafile({
+    metafile,
+    outfile: "/project/dist/index.js",
+    workingDir: "/project",
+    polyfills: ["@reactgjs/react-gtk/dist/esm/polyfills/fetch.mjs"],
+  });
+
+export default describe("analyzeMetafile", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+    memoryFs.addFile(
+      "/project/node_modules/lodash/package.json",
+      JSON.stringify({ name: "lodash", version: "4.17.21" }),
+    );
+    memoryFs.addFile(
+      "/project/node_modules/ui-kit/node_modules/lodash/package.json",
+      JSON.stringify({ name: "lodash", version: "3.10.1" }),
+    );
+  });
+
+  it("should sum up the bytes of the modules of each package", () => {
+    const report = analyze();
+
+    expect(report.outfile).toEqual("dist/index.js");
+    expect(report.totalBytes).toEqual(1000);
+    expect(
+      report.packages.map((pkg) => [pkg.name, pkg.bytes, pkg.modules]),
+    ).toEqual([
+      ["lodash", 500, 2],
+      [PROJECT_PACKAGE, 200, 2],
+      ["@reactgjs/react-gtk", 120, 1],
+      ["ui-kit", 100, 1],
+      ["whatwg-url", 70, 1],
+      [VIRTUAL_PACKAGE, 10, 1],
+    ]);
+    expect(report.modules[0]).toEqual({
+      path: "node_modules/lodash/index.js",
+      package: "lodash",
+      bytes: 300,
+    });
+  });
+
+  it("should report the packages included in more than one version", () => {
+    expect(analyze().duplicates).toEqual([
+      {
+        name: "lodash",
+        instances: [
+          { version: "4.17.21", path: "node_modules/lodash", bytes: 300 },
+          {
+            version: "3.10.1",
+            path: "node_modules/ui-kit/node_modules/lodash",
+            bytes: 200,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should use an unknown version when the package.json is missing", () => {
+    memoryFs.reset();
+
+    const lodash = analyze().packages.find((pkg) => pkg.name === "lodash");
+
+    expect(lodash?.versions).toEqual(["unknown"]);
+  });
+
+  it("should count only the modules that are included by the polyfill", () => {
+    expect(analyze().polyfills).toEqual([
+      {
+        name: "fetch",
+        importPath: "@reactgjs/react-gtk/dist/esm/polyfills/fetch.mjs",
+        // lodash is imported by the app too
+        bytes: 120 + 70,
+      },
+    ]);
+  });
+
+  it("should throw if the bundle is not in the metafile", () => {
+    expect(() =>
+      analyzeMetafile({
+        metafile,
+        outfile: "/project/dist/other.js",
+        workingDir: "/project",
+        polyfills: [],
+      })
+    ).toThrow();
+  });
+});
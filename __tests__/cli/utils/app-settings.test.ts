@@ -0,0 +1,101 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  settingKeyToProperty,
+  toGVariantText,
+  validateSettings,
+} from "../../../src/utils/app-settings";
+
+export default describe("app-settings", () => {
+  describe("validateSettings", () => {
+    it("should accept valid settings", () => {
+      expect(() =>
+        validateSettings({
+          "dark-mode": { type: "boolean", default: false },
+          "window-width": {
+            type: "int",
+            default: 800,
+            range: { min: 200, max: 4000 },
+          },
+          theme: {
+            type: "enum",
+            default: "system",
+            choices: ["system", "light", "dark"],
+          },
+          "recent-files": { type: "string[]", default: [] },
+        })
+      ).not.toThrow();
+    });
+
+    it("should reject invalid key names", () => {
+      for (const key of ["Dark", "dark_mode", "dark--mode", "dark-", "1st"]) {
+        expect(() =>
+          validateSettings({ [key]: { type: "boolean", default: false } })
+        ).toThrow();
+      }
+    });
+
+    it("should reject defaults of a wrong type", () => {
+      expect(() =>
+        validateSettings({ count: { type: "int", default: 1.5 } })
+      ).toThrow();
+      expect(() =>
+        validateSettings({ name: { type: "string", default: false } })
+      ).toThrow();
+    });
+
+    it("should check the enum choices", () => {
+      expect(() =>
+        validateSettings({ theme: { type: "enum", default: "light" } })
+      ).toThrow();
+      expect(() =>
+        validateSettings({
+          theme: { type: "enum", default: "blue", choices: ["light"] },
+        })
+      ).toThrow();
+      expect(() =>
+        validateSettings({
+          name: { type: "string", default: "a", choices: ["a"] },
+        })
+      ).toThrow();
+    });
+
+    it("should check the range", () => {
+      expect(() =>
+        validateSettings({
+          size: { type: "int", default: 10, range: { min: 20, max: 30 } },
+        })
+      ).toThrow();
+      expect(() =>
+        validateSettings({
+          name: { type: "string", default: "a", range: { min: 0, max: 1 } },
+        })
+      ).toThrow();
+    });
+  });
+
+  describe("toGVariantText", () => {
+    it("should format the values in the GVariant text format", () => {
+      expect(toGVariantText({ type: "boolean", default: true }, true))
+        .toEqual("true");
+      expect(toGVariantText({ type: "int", default: 1 }, 42)).toEqual("42");
+      expect(toGVariantText({ type: "double", default: 1 }, 2)).toEqual("2.0");
+      expect(toGVariantText({ type: "double", default: 1 }, 0.5))
+        .toEqual("0.5");
+      expect(toGVariantText({ type: "string[]", default: [] }, ["a", "b"]))
+        .toEqual("['a', 'b']");
+    });
+
+    it("should escape the strings", () => {
+      expect(toGVariantText({ type: "string", default: "" }, "it's a\\b"))
+        .toEqual("'it\\'s a\\\\b'");
+    });
+  });
+
+  describe("settingKeyToProperty", () => {
+    it("should convert the keys to camelCase", () => {
+      expect(settingKeyToProperty("window-width")).toEqual("windowWidth");
+      expect(settingKeyToProperty("show-2-columns")).toEqual("show2Columns");
+      expect(settingKeyToProperty("theme")).toEqual("theme");
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { createArArchive } from "../../../src/utils/ar-archive";
+import "../../utils/define-buffer";
+
+const HEADER_SIZE = 60;
+
+const readHeader = (archive: Buffer, offset: number) => {
+  const header = archive.subarray(offset, offset + HEADER_SIZE).toString();
+  return {
+    name: header.slice(0, 16).trimEnd(),
+    mtime: header.slice(16, 28).trimEnd(),
+    owner: header.slice(28, 34).trimEnd(),
+    group: header.slice(34, 40).trimEnd(),
+    mode: header.slice(40, 48).trimEnd(),
+    size: header.slice(48, 58).trimEnd(),
+    end: header.slice(58, 60),
+  };
+};
+
+export default describe("createArArchive", () => {
+  it("should start with the ar magic string", () => {
+    const archive = createArArchive([]);
+
+    expect(archive.toString()).toEqual("!<arch>\n");
+  });
+
+  it("should write the header and the data of each entry", () => {
+    const archive = createArArchive([
+      { name: "debian-binary", data: Buffer.from("2.0\n"), mtime: 1700000000 },
+    ]);
+
+    expect(readHeader(archive, 8)).toEqual({
+      name: "debian-binary",
+      mtime: "1700000000",
+      owner: "0",
+      group: "0",
+      mode: "100644",
+      size: "4",
+      end: "`\n",
+    });
+    expect(archive.subarray(8 + HEADER_SIZE).toString()).toEqual("2.0\n");
+  });
+
+  it("should pad the entries with odd length to an even offset", () => {
+    const archive = createArArchive([
+      { name: "a", data: Buffer.from("odd"), mtime: 0 },
+      { name: "b", data: Buffer.from("even"), mtime: 0, mode: 0o100755 },
+    ]);
+
+    const secondOffset = 8 + HEADER_SIZE + 4;
+
+    expect(archive.subarray(8 + HEADER_SIZE, secondOffset).toString())
+      .toEqual("odd\n");
+    expect(readHeader(archive, secondOffset)).toMatch({
+      name: "b",
+      mode: "100755",
+      size: "4",
+    });
+    expect(archive.length).toEqual(secondOffset + HEADER_SIZE + 4);
+  });
+
+  it("should be the same for the same entries", () => {
+    const entries = [{ name: "file", data: Buffer.from("content"), mtime: 1 }];
+
+    expect(createArArchive(entries).equals(createArArchive(entries)))
+      .toEqual(true);
+  });
+
+  it("should reject names that do not fit in the header", () => {
+    expect(() =>
+      createArArchive([
+        { name: "a-very-long-file-name", data: Buffer.from(""), mtime: 0 },
+      ])
+    ).toThrow();
+  });
+});
@@ -0,0 +1,7 @@
+export default {
+  mocks: {
+    crypto: "./__tests__/cli/mocks/crypto.ts",
+    "fs/promises": "./__tests__/cli/mocks/fs-promises.ts",
+    tar: "./__tests__/cli/mocks/tar.ts",
+  },
+};
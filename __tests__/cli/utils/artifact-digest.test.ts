@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import {
+  diffArtifactDigests,
+  getArtifactDigest,
+} from "../../../src/utils/artifact-digest";
+import { memoryFs } from "../mocks/memory-fs";
+
+const tarball = (sha256: string, entries: Record<string, string>) => ({
+  name: "myapp-1.0.0.tar.gz",
+  sha256,
+  entries: new Map(Object.entries(entries)),
+});
+
+export default describe("artifact-digest", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+  });
+
+  describe("getArtifactDigest", () => {
+    it("should hash the content of the file", async () => {
+      memoryFs.addFile("/build/1/myapp.deb", "content");
+      memoryFs.addFile("/build/2/myapp.deb", "content");
+      memoryFs.addFile("/build/3/myapp.deb", "other content");
+
+      const [first, second, third] = await Promise.all([
+        getArtifactDigest("/build/1/myapp.deb", "myapp.deb"),
+        getArtifactDigest("/build/2/myapp.deb", "myapp.deb"),
+        getArtifactDigest("/build/3/myapp.deb", "myapp.deb"),
+      ]);
+
+      expect(first.name).toEqual("myapp.deb");
+      expect(first.sha256).toEqual(second.sha256);
+      expect(first.sha256).not.toEqual(third.sha256);
+      expect(first.entries).toBeUndefined();
+    });
+  });
+
+  describe("diffArtifactDigests", () => {
+    it("should return no differences for the same digests", () => {
+      expect(
+        diffArtifactDigests(
+          { name: "myapp.deb", sha256: "abc" },
+          { name: "myapp.deb", sha256: "abc" },
+        ),
+      ).toEqual([]);
+    });
+
+    it("should report the whole file if it's not a tarball", () => {
+      expect(
+        diffArtifactDigests(
+          { name: "myapp.deb", sha256: "abc" },
+          { name: "myapp.deb", sha256: "def" },
+        ),
+      ).toEqual(["myapp.deb: content differs"]);
+    });
+
+    it("should list the differing tarball entries in order", () => {
+      const first = tarball("abc", {
+        "myapp/src/main.js": "1",
+        "myapp/meson.build": "2",
+        "myapp/data/icon.svg": "3",
+      });
+      const second = tarball("def", {
+        "myapp/src/main.js": "1",
+        "myapp/meson.build": "4",
+        "myapp/po/LINGUAS": "5",
+      });
+
+      expect(diffArtifactDigests(first, second)).toEqual([
+        "myapp-1.0.0.tar.gz: myapp/data/icon.svg is only present in one build",
+        "myapp-1.0.0.tar.gz: myapp/meson.build differs",
+        "myapp-1.0.0.tar.gz: myapp/po/LINGUAS is only present in one build",
+      ]);
+    });
+
+    it("should report the archive if all the entries are the same", () => {
+      const entries = { "myapp/meson.build": "1" };
+
+      expect(
+        diffArtifactDigests(tarball("abc", entries), tarball("def", entries)),
+      ).toEqual(["myapp-1.0.0.tar.gz: archive differs"]);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  compareVersions,
+  parseVersion,
+} from "../../../src/utils/compare-versions";
+
+export default describe("compare-versions", () => {
+  describe("parseVersion", () => {
+    it("should find the version in the command output", () => {
+      expect(parseVersion("gjs 1.80.2")).toEqual("1.80.2");
+      expect(parseVersion("1.4.0\n")).toEqual("1.4.0");
+      expect(parseVersion("flatpak-builder 1.4")).toEqual("1.4");
+    });
+
+    it("should return undefined if there is no version", () => {
+      expect(parseVersion("command not found")).toBeUndefined();
+      expect(parseVersion("build 42")).toBeUndefined();
+    });
+  });
+
+  describe("compareVersions", () => {
+    it("should compare the parts as numbers", () => {
+      expect(compareVersions("1.10.0", "1.9.0") > 0).toBe(true);
+      expect(compareVersions("1.9.0", "1.10.0") < 0).toBe(true);
+      expect(compareVersions("2.0", "10.0") < 0).toBe(true);
+    });
+
+    it("should treat the missing parts as zeros", () => {
+      expect(compareVersions("1.2", "1.2.0")).toEqual(0);
+      expect(compareVersions("1.2", "1.2.1") < 0).toBe(true);
+      expect(compareVersions("1.2.1", "1.2") > 0).toBe(true);
+    });
+
+    it("should return 0 for the same versions", () => {
+      expect(compareVersions("1.80.2", "1.80.2")).toEqual(0);
+    });
+  });
+});
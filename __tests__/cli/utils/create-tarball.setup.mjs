@@ -0,0 +1,7 @@
+export default {
+  mocks: {
+    "fs/promises": "./__tests__/cli/mocks/fs-promises.ts",
+    path: "./src/polyfills/path.ts",
+    tar: "./__tests__/cli/mocks/tar.ts",
+  },
+};
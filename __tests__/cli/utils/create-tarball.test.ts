@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import { createTarball } from "../../../src/utils/create-tarball";
+import { withProcess } from "../../utils/with-process";
+import { memoryFs } from "../mocks/memory-fs";
+import { createdArchives } from "../mocks/tar";
+
+const SOURCE_DATE_EPOCH = "1700000000";
+
+const create = (params: { exclude?: string[]; mtime?: Date } = {}) =>
+  withProcess({ env: { SOURCE_DATE_EPOCH } }, () =>
+    createTarball({
+      cwd: "/build",
+      file: "/out/myapp-1.0.0.tar.gz",
+      prefix: "myapp-1.0.0",
+      ...params,
+    }));
+
+export default describe("createTarball", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+    memoryFs.addDir("/out");
+    createdArchives.splice(0);
+  });
+
+  it("should add the parents before their content", async () => {
+    memoryFs.addFile("/build/src/main.js", "");
+    memoryFs.addFile("/build/meson.build", "");
+    memoryFs.addFile("/build/data/meson.build", "");
+    memoryFs.addFile("/build/data/icons/icon.svg", "");
+    memoryFs.addDir("/build/po");
+
+    await create();
+
+    expect(createdArchives[0]?.entries).toEqual([
+      "data",
+      "data/icons",
+      "data/icons/icon.svg",
+      "data/meson.build",
+      "meson.build",
+      "po",
+      "src",
+      "src/main.js",
+    ]);
+  });
+
+  it("should skip the excluded paths", async () => {
+    memoryFs.addFile("/build/meson.build", "");
+    memoryFs.addFile("/build/_build/build.ninja", "");
+    memoryFs.addFile("/build/data/generated.xml", "");
+    memoryFs.addFile("/build/data/meson.build", "");
+
+    await create({ exclude: ["_build", "data/generated.xml"] });
+
+    expect(createdArchives[0]?.entries).toEqual([
+      "data",
+      "data/meson.build",
+      "meson.build",
+    ]);
+  });
+
+  it("should strip the metadata that depends on the system", async () => {
+    memoryFs.addFile("/build/meson.build", "");
+
+    await create();
+
+    expect(createdArchives[0]?.options).toEqual({
+      gzip: true,
+      portable: true,
+      noDirRecurse: true,
+      mtime: new Date(Number(SOURCE_DATE_EPOCH) * 1000),
+      cwd: "/build",
+      file: "/out/myapp-1.0.0.tar.gz",
+      prefix: "myapp-1.0.0",
+    });
+  });
+
+  it("should set the given modification time", async () => {
+    memoryFs.addFile("/build/meson.build", "");
+
+    await create({ mtime: new Date(0) });
+
+    expect(createdArchives[0]?.options.mtime).toEqual(new Date(0));
+  });
+
+  it("should sort the entries the same way in every locale", async () => {
+    for (const name of ["b", "a", "Z", "_", "é", "e", "B"]) {
+      memoryFs.addFile(`/build/${name}`, "");
+    }
+
+    await create();
+
+    expect(createdArchives[0]?.entries).toEqual([
+      "B",
+      "Z",
+      "_",
+      "a",
+      "b",
+      "e",
+      "é",
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { deepMerge } from "../../../src/utils/deep-merge";
+
+export default describe("deepMerge", () => {
+  it("should merge the nested objects", () => {
+    const base = {
+      applicationName: "base",
+      envVars: { defaults: { A: "1", B: "2" } },
+    };
+
+    expect(
+      deepMerge(base, { envVars: { defaults: { B: "3", C: "4" } } }),
+    ).toEqual({
+      applicationName: "base",
+      envVars: { defaults: { A: "1", B: "3", C: "4" } },
+    });
+  });
+
+  it("should replace the arrays and other values", () => {
+    const plugin = () => {};
+
+    expect(
+      deepMerge(
+        { externalPackages: ["a", "b"], minify: true, plugin: undefined },
+        { externalPackages: ["c"], minify: false, plugin },
+      ),
+    ).toEqual({ externalPackages: ["c"], minify: false, plugin });
+  });
+
+  it("should replace an object with a value of other type", () => {
+    expect(deepMerge({ sourcemap: { a: 1 } }, { sourcemap: false }))
+      .toEqual({ sourcemap: false });
+    expect(deepMerge({ sourcemap: false }, { sourcemap: { a: 1 } }))
+      .toEqual({ sourcemap: { a: 1 } });
+  });
+
+  it("should not merge class instances", () => {
+    const date = new Date(0);
+    const merged = deepMerge({ date: { year: 1970 } }, { date });
+
+    expect(merged.date).toBe(date);
+  });
+
+  it("should ignore the undefined values of the override", () => {
+    expect(deepMerge({ outDir: "dist" }, { outDir: undefined })).toEqual({
+      outDir: "dist",
+    });
+  });
+
+  it("should not modify the given objects", () => {
+    const base = { envVars: { defaults: { A: "1" } } };
+    const override = { envVars: { defaults: { B: "2" } } };
+
+    deepMerge(base, override);
+
+    expect(base).toEqual({ envVars: { defaults: { A: "1" } } });
+    expect(override).toEqual({ envVars: { defaults: { B: "2" } } });
+  });
+});
@@ -0,0 +1,5 @@
+export default {
+  mocks: {
+    fs: "./__tests__/cli/mocks/fs.ts",
+  },
+};
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import { detectDistro } from "../../../src/utils/detect-distro";
+import { memoryFs } from "../mocks/memory-fs";
+
+const setOsRelease = (lines: string[]) => {
+  memoryFs.addFile("/etc/os-release", lines.join("\n") + "\n");
+};
+
+export default describe("detectDistro", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+  });
+
+  it("should detect the distribution by its ID", () => {
+    setOsRelease(["NAME=\"Fedora Linux\"", "ID=fedora", "VERSION_ID=40"]);
+    expect(detectDistro()).toEqual("fedora");
+
+    setOsRelease(["NAME=\"Arch Linux\"", "ID=arch"]);
+    expect(detectDistro()).toEqual("arch");
+  });
+
+  it("should detect the derivatives by the ID_LIKE field", () => {
+    setOsRelease(["ID=linuxmint", "ID_LIKE=\"ubuntu debian\""]);
+    expect(detectDistro()).toEqual("debian");
+
+    setOsRelease(["ID=rocky", "ID_LIKE='rhel centos fedora'"]);
+    expect(detectDistro()).toEqual("fedora");
+  });
+
+  it("should match the IDs with a variant suffix", () => {
+    setOsRelease(["ID=opensuse-tumbleweed", "ID_LIKE=\"opensuse suse\""]);
+    expect(detectDistro()).toEqual("opensuse");
+  });
+
+  it("should return undefined for the unknown distributions", () => {
+    setOsRelease(["ID=nixos"]);
+    expect(detectDistro()).toBeUndefined();
+
+    memoryFs.reset();
+    expect(detectDistro()).toBeUndefined();
+  });
+
+  it("should read the given file", () => {
+    memoryFs.addFile("/usr/lib/os-release", "ID=debian\n");
+    expect(detectDistro("/usr/lib/os-release")).toEqual("debian");
+  });
+});
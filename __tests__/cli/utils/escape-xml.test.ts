@@ -0,0 +1,18 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { escapeXml } from "../../../src/utils/escape-xml";
+
+export default describe("escapeXml", () => {
+  it("should escape the XML special characters", () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toEqual(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;",
+    );
+  });
+
+  it("should escape the ampersand of an existing entity", () => {
+    expect(escapeXml(escapeXml("&"))).toEqual("&amp;amp;");
+  });
+
+  it("should leave the other characters as they are", () => {
+    expect(escapeXml("Zażółć gęślą jaźń ✓")).toEqual("Zażółć gęślą jaźń ✓");
+  });
+});
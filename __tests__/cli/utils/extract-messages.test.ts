@@ -0,0 +1,143 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  extractMessages,
+  mergeMessages,
+} from "../../../src/utils/extract-messages";
+
+export default describe("extract-messages", () => {
+  describe("extractMessages", () => {
+    it("should extract the messages of all the gettext functions", () => {
+      const source = [
+        `const title = _("Hello");`,
+        `const count = ngettext("One file", "%d files", n);`,
+        `const label = pgettext("menu", "Open");`,
+      ].join("\n");
+
+      expect(extractMessages(source, "src/app.tsx")).toEqual([
+        { msgid: "Hello", references: ["src/app.tsx:1"] },
+        {
+          msgid: "One file",
+          msgidPlural: "%d files",
+          references: ["src/app.tsx:2"],
+        },
+        { context: "menu", msgid: "Open", references: ["src/app.tsx:3"] },
+      ]);
+    });
+
+    it("should read all the kinds of string literals", () => {
+      const source = `
+        _('single');
+        _("double");
+        _(\`template\`);
+      `;
+
+      expect(extractMessages(source, "a.js").map((m) => m.msgid)).toEqual([
+        "single",
+        "double",
+        "template",
+      ]);
+    });
+
+    it("should unescape the escape sequences", () => {
+      const source = String.raw`_("Tab\tnew line\n \"quoted\" \x41B\u{43}")`;
+
+      expect(extractMessages(source, "a.js")[0]?.msgid).toEqual(
+        "Tab\tnew line\n \"quoted\" ABC",
+      );
+    });
+
+    it("should join concatenated literals and skip comments", () => {
+      const source = `
+        _(
+          // a comment for translators
+          "Hello, " +
+          /* inline */ 'world'
+        );
+      `;
+
+      expect(extractMessages(source, "a.js")[0]?.msgid).toEqual("Hello, world");
+    });
+
+    it("should ignore calls that are not given string literals", () => {
+      const source = `
+        _(variable);
+        _("prefix" + variable);
+        _(\`Hello \${name}\`);
+        ngettext("One file");
+        pgettext("only context", id);
+        _("");
+      `;
+
+      expect(extractMessages(source, "a.js")).toEqual([]);
+    });
+
+    it("should ignore methods and functions with similar names", () => {
+      const source = `
+        lodash._("not a message");
+        my_("not a message");
+        $_("not a message");
+        call_("not a message");
+        _ ("a message");
+      `;
+
+      expect(extractMessages(source, "a.js").map((m) => m.msgid)).toEqual([
+        "a message",
+      ]);
+    });
+
+    it("should not read a string past the end of the line", () => {
+      const source = `_("unterminated\n"); _("next");`;
+
+      expect(extractMessages(source, "a.js").map((m) => m.msgid)).toEqual([
+        "next",
+      ]);
+    });
+  });
+
+  describe("mergeMessages", () => {
+    it("should merge the references of the same message", () => {
+      const merged = mergeMessages([
+        { msgid: "Open", references: ["a.js:1"] },
+        { msgid: "Open", references: ["b.js:5"] },
+        { msgid: "Close", references: ["a.js:2"] },
+      ]);
+
+      expect(merged.map((m) => [m.msgid, m.references])).toEqual([
+        ["Open", ["a.js:1", "b.js:5"]],
+        ["Close", ["a.js:2"]],
+      ]);
+    });
+
+    it("should keep the messages with different contexts apart", () => {
+      const merged = mergeMessages([
+        { msgid: "Open", references: ["a.js:1"] },
+        { context: "menu", msgid: "Open", references: ["a.js:2"] },
+      ]);
+
+      expect(merged.length).toEqual(2);
+    });
+
+    it("should take the plural form from any of the merged messages", () => {
+      const merged = mergeMessages([
+        { msgid: "%d file", references: ["a.js:1"] },
+        { msgid: "%d file", msgidPlural: "%d files", references: ["b.js:1"] },
+      ]);
+
+      expect(merged).toEqual([
+        {
+          msgid: "%d file",
+          msgidPlural: "%d files",
+          references: ["a.js:1", "b.js:1"],
+        },
+      ]);
+    });
+
+    it("should not modify the given messages", () => {
+      const first = { msgid: "Open", references: ["a.js:1"] };
+
+      mergeMessages([first, { msgid: "Open", references: ["b.js:1"] }]);
+
+      expect(first.references).toEqual(["a.js:1"]);
+    });
+  });
+});
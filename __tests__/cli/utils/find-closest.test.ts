@@ -0,0 +1,24 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { findClosest } from "../../../src/utils/find-closest";
+
+export default describe("findClosest", () => {
+  const candidates = ["polyfills", "outDir", "entrypoint", "minify"];
+
+  it("should return the most similar candidate", () => {
+    expect(findClosest("polyfill", candidates)).toEqual("polyfills");
+    expect(findClosest("entrypiont", candidates)).toEqual("entrypoint");
+  });
+
+  it("should ignore the letter case", () => {
+    expect(findClosest("outdir", candidates)).toEqual("outDir");
+  });
+
+  it("should return undefined when no candidate is similar enough", () => {
+    expect(findClosest("applicationName", candidates)).toBeUndefined();
+    expect(findClosest("x", [])).toBeUndefined();
+  });
+
+  it("should prefer the closest of the similar candidates", () => {
+    expect(findClosest("minifyy", ["minify", "minifier"])).toEqual("minify");
+  });
+});
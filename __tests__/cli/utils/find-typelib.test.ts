@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import { findTypelib, getTypelibDirs } from "../../../src/utils/find-typelib";
+import { withProcess } from "../../utils/with-process";
+import { memoryFs } from "../mocks/memory-fs";
+
+export default describe("find-typelib", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+  });
+
+  describe("getTypelibDirs", () => {
+    it("should list the GI_TYPELIB_PATH dirs first", async () => {
+      memoryFs.addDir("/usr/lib64/girepository-1.0");
+      memoryFs.addDir("/usr/lib/x86_64-linux-gnu/girepository-1.0");
+      memoryFs.addDir("/opt/gnome/lib/girepository-1.0");
+      memoryFs.addDir("/project/typelibs");
+
+      const env = {
+        GI_TYPELIB_PATH:
+          "/opt/gnome/lib/girepository-1.0:/opt/missing/girepository-1.0",
+      };
+      const dirs = await withProcess(
+        { env },
+        () => getTypelibDirs(["/project/typelibs"]),
+      );
+
+      expect(dirs).toEqual([
+        "/opt/gnome/lib/girepository-1.0",
+        "/project/typelibs",
+        "/usr/lib64/girepository-1.0",
+        "/usr/lib/x86_64-linux-gnu/girepository-1.0",
+      ]);
+    });
+
+    it("should list each directory once", async () => {
+      memoryFs.addDir("/usr/lib/girepository-1.0");
+
+      const dirs = await withProcess(
+        { env: { GI_TYPELIB_PATH: "/usr/lib/girepository-1.0" } },
+        () => getTypelibDirs(),
+      );
+
+      expect(dirs).toEqual(["/usr/lib/girepository-1.0"]);
+    });
+  });
+
+  describe("findTypelib", () => {
+    const dirs = ["/opt/gnome/girepository-1.0", "/usr/lib/girepository-1.0"];
+
+    beforeEach(() => {
+      memoryFs.addFile("/opt/gnome/girepository-1.0/Adw-1.typelib", "");
+      memoryFs.addFile("/usr/lib/girepository-1.0/Gtk-3.0.typelib", "");
+      memoryFs.addFile("/usr/lib/girepository-1.0/Gtk-4.0.typelib", "");
+      memoryFs.addFile("/usr/lib/girepository-1.0/GtkSource-5.typelib", "");
+    });
+
+    it("should find the typelib of the given version", () => {
+      expect(findTypelib(dirs, "Gtk", "4.0")).toEqual(
+        "/usr/lib/girepository-1.0/Gtk-4.0.typelib",
+      );
+      expect(findTypelib(dirs, "Adw", "1")).toEqual(
+        "/opt/gnome/girepository-1.0/Adw-1.typelib",
+      );
+      expect(findTypelib(dirs, "Gtk", "2.0")).toBeUndefined();
+    });
+
+    it("should accept any version if none is given", () => {
+      expect(findTypelib(dirs, "GtkSource")).toEqual(
+        "/usr/lib/girepository-1.0/GtkSource-5.typelib",
+      );
+      expect(findTypelib(dirs, "Soup")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,8 @@
+export default {
+  mocks: {
+    fs: "./__tests__/cli/mocks/fs.ts",
+    "fs/promises": "./__tests__/cli/mocks/fs-promises.ts",
+    os: "./__tests__/cli/mocks/os.ts",
+    path: "./src/polyfills/path.ts",
+  },
+};
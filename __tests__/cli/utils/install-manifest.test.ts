@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import {
+  expandHomeDir,
+  getInstallManifestPath,
+  removeInstalledFiles,
+} from "../../../src/utils/install-manifest";
+import { withProcess } from "../../utils/with-process";
+import { memoryFs } from "../mocks/memory-fs";
+
+const APP_ID = "com.example.myapp";
+
+export default describe("install-manifest", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+  });
+
+  describe("expandHomeDir", () => {
+    it("should expand only the leading tilde", () => {
+      expect(expandHomeDir("~")).toEqual("/home/user");
+      expect(expandHomeDir("~/.local")).toEqual("/home/user/.local");
+      expect(expandHomeDir("/opt/~/app")).toEqual("/opt/~/app");
+      expect(expandHomeDir("~user/app")).toEqual("~user/app");
+    });
+  });
+
+  describe("getInstallManifestPath", () => {
+    it("should place the manifest in the XDG data directory", async () => {
+      expect(
+        await withProcess({ env: {} }, () => getInstallManifestPath(APP_ID)),
+      ).toEqual(
+        "/home/user/.local/share/react-gtk/installs/com.example.myapp.json",
+      );
+      expect(
+        await withProcess(
+          { env: { XDG_DATA_HOME: "/data" } },
+          () => getInstallManifestPath(APP_ID),
+        ),
+      ).toEqual("/data/react-gtk/installs/com.example.myapp.json");
+    });
+  });
+
+  describe("removeInstalledFiles", () => {
+    it("should remove the directories of the app, deepest first", async () => {
+      const files = [
+        `/usr/share/${APP_ID}/${APP_ID}.src.gresource`,
+        `/usr/share/${APP_ID}/presets/dark/theme.json`,
+        `/usr/share/${APP_ID}/presets/default.json`,
+        `/usr/share/applications/${APP_ID}.desktop`,
+        "/usr/bin/myapp",
+      ];
+      files.forEach((file) => memoryFs.addFile(file, ""));
+
+      await removeInstalledFiles(APP_ID, files);
+
+      expect(memoryFs.operations).toEqual([
+        ...files.map((file) => `rm ${file}`),
+        `rmdir /usr/share/${APP_ID}/presets/dark`,
+        `rmdir /usr/share/${APP_ID}/presets`,
+        `rmdir /usr/share/${APP_ID}`,
+      ]);
+      expect(memoryFs.isDir("/usr/share/applications")).toBe(true);
+      expect(memoryFs.isDir("/usr/bin")).toBe(true);
+    });
+
+    it("should keep the app directories that are not empty", async () => {
+      const dataFile = `/usr/share/${APP_ID}/data/${APP_ID}.data.gresource`;
+      memoryFs.addFile(`/usr/share/${APP_ID}/user-data.json`, "");
+      memoryFs.addFile(dataFile, "");
+
+      await removeInstalledFiles(APP_ID, [dataFile]);
+
+      expect(memoryFs.isDir(`/usr/share/${APP_ID}/data`)).toBe(false);
+      expect(memoryFs.isFile(`/usr/share/${APP_ID}/user-data.json`)).toBe(
+        true,
+      );
+    });
+
+    it("should ignore the files that no longer exist", async () => {
+      memoryFs.addFile("/usr/bin/myapp", "");
+
+      await removeInstalledFiles(APP_ID, [
+        `/usr/share/${APP_ID}/${APP_ID}`,
+        "/usr/bin/myapp",
+      ]);
+
+      expect(memoryFs.operations).toEqual(["rm /usr/bin/myapp"]);
+    });
+  });
+});
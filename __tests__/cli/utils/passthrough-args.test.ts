@@ -0,0 +1,35 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  getCliArgs,
+  getPassthroughArgs,
+} from "../../../src/utils/passthrough-args";
+import { withProcess } from "../../utils/with-process";
+
+const withArgs = <R>(args: string[], fn: () => R) =>
+  withProcess({ argv: ["node", "react-gtk", ...args] }, fn);
+
+export default describe("passthrough-args", () => {
+  it("should split the arguments on the separator", async () => {
+    const args = ["start", "--watch", "--", "--verbose", "file.txt"];
+
+    expect(await withArgs(args, getCliArgs)).toEqual(["start", "--watch"]);
+    expect(await withArgs(args, getPassthroughArgs)).toEqual([
+      "--verbose",
+      "file.txt",
+    ]);
+  });
+
+  it("should pass nothing to the app without the separator", async () => {
+    const args = ["start", "--watch"];
+
+    expect(await withArgs(args, getCliArgs)).toEqual(["start", "--watch"]);
+    expect(await withArgs(args, getPassthroughArgs)).toEqual([]);
+  });
+
+  it("should split only on the first separator", async () => {
+    const args = ["start", "--", "--", "-x"];
+
+    expect(await withArgs(args, getCliArgs)).toEqual(["start"]);
+    expect(await withArgs(args, getPassthroughArgs)).toEqual(["--", "-x"]);
+  });
+});
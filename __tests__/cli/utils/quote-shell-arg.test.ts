@@ -0,0 +1,27 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { quoteShellArg } from "../../../src/utils/quote-shell-arg";
+
+export default describe("quoteShellArg", () => {
+  it("should leave the arguments without special characters as is", () => {
+    expect(quoteShellArg("--inspect")).toEqual("--inspect");
+    expect(quoteShellArg("--file=./data/app.json")).toEqual(
+      "--file=./data/app.json",
+    );
+    expect(quoteShellArg("user@host:1,2+3%")).toEqual("user@host:1,2+3%");
+  });
+
+  it("should quote the arguments with special characters", () => {
+    expect(quoteShellArg("hello world")).toEqual("'hello world'");
+    expect(quoteShellArg("$HOME")).toEqual("'$HOME'");
+    expect(quoteShellArg("a;rm -rf ~")).toEqual("'a;rm -rf ~'");
+    expect(quoteShellArg("`id`")).toEqual("'`id`'");
+  });
+
+  it("should escape the single quotes", () => {
+    expect(quoteShellArg("it's")).toEqual("'it'\\''s'");
+  });
+
+  it("should quote an empty argument", () => {
+    expect(quoteShellArg("")).toEqual("''");
+  });
+});
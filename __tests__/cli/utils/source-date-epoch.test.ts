@@ -0,0 +1,40 @@
+import { describe, expect, it, match } from "@reactgjs/gest";
+import { getSourceDate } from "../../../src/utils/source-date-epoch";
+import { withProcess } from "../../utils/with-process";
+
+export default describe("getSourceDate", () => {
+  it("should return the time of the SOURCE_DATE_EPOCH", async () => {
+    const date = await withProcess(
+      { env: { SOURCE_DATE_EPOCH: "1700000000" } },
+      getSourceDate,
+    );
+
+    expect(date.toISOString()).toEqual("2023-11-14T22:13:20.000Z");
+  });
+
+  it("should return the current time when it's not set", async () => {
+    const before = Date.now();
+    const dates = [
+      await withProcess({ env: {} }, getSourceDate),
+      await withProcess({ env: { SOURCE_DATE_EPOCH: "" } }, getSourceDate),
+    ];
+
+    for (const date of dates) {
+      expect(date.getTime() >= before).toBe(true);
+      expect(date.getTime() <= Date.now()).toBe(true);
+    }
+  });
+
+  it("should reject values that are not whole seconds", async () => {
+    await expect(
+      withProcess({ env: { SOURCE_DATE_EPOCH: "1.5" } }, getSourceDate),
+    ).toRejectMatch({
+      message: match.stringMatchingRegex(/Invalid SOURCE_DATE_EPOCH value/),
+    });
+    await expect(
+      withProcess({ env: { SOURCE_DATE_EPOCH: "yesterday" } }, getSourceDate),
+    ).toRejectMatch({
+      message: match.stringMatchingRegex(/Invalid SOURCE_DATE_EPOCH value/),
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { StatusLine } from "../../../src/utils/status-line";
+
+const CLEAR_LINE = "\r\x1b[2K";
+
+const createStream = (output: string[]) => ({
+  write(chunk: string) {
+    output.push(chunk);
+    return true;
+  },
+});
+
+/**
+ * Runs the test with `process` replaced by one with fake standard
+ * streams, the writes to both of them are collected in `output`.
+ */
+const withFakeProcess = (test: (output: string[]) => void) => {
+  const originalProcess = globalThis.process;
+  const output: string[] = [];
+
+  Object.defineProperty(globalThis, "process", {
+    value: {
+      stdout: createStream(output),
+      stderr: createStream(output),
+      on() {},
+      off() {},
+    },
+    configurable: true,
+    writable: true,
+  });
+
+  try {
+    test(output);
+  } finally {
+    Object.defineProperty(globalThis, "process", {
+      value: originalProcess,
+      configurable: true,
+      writable: true,
+    });
+  }
+};
+
+export default describe("StatusLine", () => {
+  it("should print the writes above the status", () => {
+    withFakeProcess((output) => {
+      const statusLine = new StatusLine();
+
+      statusLine.set("Building...");
+      process.stdout.write("Build finished\n");
+      statusLine.close();
+
+      expect(output).toEqual([
+        "Building...",
+        CLEAR_LINE,
+        "Build finished\n",
+        "Building...",
+        CLEAR_LINE,
+      ]);
+    });
+  });
+
+  it("should draw the status again once a partial line is finished", () => {
+    withFakeProcess((output) => {
+      const statusLine = new StatusLine();
+
+      statusLine.set("Building...");
+      process.stderr.write("Loading");
+      process.stderr.write(" done\n");
+      statusLine.close();
+
+      expect(output).toEqual([
+        "Building...",
+        CLEAR_LINE,
+        "Loading",
+        " done\n",
+        "Building...",
+        CLEAR_LINE,
+      ]);
+    });
+  });
+
+  it("should restore the original write methods on close", () => {
+    withFakeProcess((output) => {
+      const write = process.stdout.write;
+      const statusLine = new StatusLine();
+
+      statusLine.set("Building...");
+      expect(process.stdout.write).not.toBe(write);
+
+      statusLine.close();
+      expect(process.stdout.write).toBe(write);
+
+      process.stdout.write("after\n");
+      expect(output[output.length - 1]).toEqual("after\n");
+      expect(output.filter((chunk) => chunk === "Building...").length)
+        .toEqual(1);
+    });
+  });
+});
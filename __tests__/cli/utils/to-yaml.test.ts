@@ -0,0 +1,56 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { toYaml } from "../../../src/utils/to-yaml";
+
+const lines = (...l: string[]) => l.join("\n");
+
+export default describe("toYaml", () => {
+  it("should serialize the scalars", () => {
+    expect(
+      toYaml({ name: "app", version: 1.5, enabled: true, none: null }),
+    ).toEqual(
+      lines("name: \"app\"", "version: 1.5", "enabled: true", "none: null"),
+    );
+  });
+
+  it("should quote the strings that YAML would read differently", () => {
+    expect(toYaml({ a: "yes", b: "1.0", c: "a: b", d: "line\nbreak" }))
+      .toEqual(
+        lines("a: \"yes\"", "b: \"1.0\"", "c: \"a: b\"", "d: \"line\\nbreak\""),
+      );
+  });
+
+  it("should serialize the nested objects and arrays", () => {
+    const manifest = {
+      modules: [
+        {
+          name: "app",
+          sources: [{ type: "dir", path: "." }],
+        },
+      ],
+      "finish-args": ["--share=ipc", "--socket=wayland"],
+    };
+
+    expect(toYaml(manifest)).toEqual(
+      lines(
+        "modules:",
+        "  - name: \"app\"",
+        "    sources:",
+        "      - type: \"dir\"",
+        "        path: \".\"",
+        "finish-args:",
+        "  - \"--share=ipc\"",
+        "  - \"--socket=wayland\"",
+      ),
+    );
+  });
+
+  it("should write the empty objects and arrays inline", () => {
+    expect(toYaml({ args: [], env: {}, list: [[], {}] })).toEqual(
+      lines("args: []", "env: {}", "list:", "  - []", "  - {}"),
+    );
+  });
+
+  it("should skip the undefined properties", () => {
+    expect(toYaml({ a: 1, b: undefined })).toEqual("a: 1");
+  });
+});
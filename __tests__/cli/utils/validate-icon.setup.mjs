@@ -0,0 +1,6 @@
+export default {
+  mocks: {
+    "fs/promises": "./__tests__/cli/mocks/fs-promises.ts",
+    path: "./src/polyfills/path.ts",
+  },
+};
@@ -0,0 +1,118 @@
+// `Buffer` is used when the tested module is loaded
+import "../../utils/define-buffer";
+
+import { beforeEach, describe, expect, it, match } from "@reactgjs/gest";
+import {
+  validateIcon,
+  validateIconName,
+} from "../../../src/utils/validate-icon";
+import { memoryFs } from "../mocks/memory-fs";
+
+const createPng = (width: number, height: number) => {
+  const data = Buffer.alloc(24);
+  data.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  data.writeUInt32BE(13, 8);
+  data.write("IHDR", 12, "ascii");
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+};
+
+const expectInvalid = (
+  filepath: string,
+  reason: RegExp,
+  options?: { symbolic?: boolean },
+) =>
+  expect(validateIcon(filepath, options)).toRejectMatch({
+    message: match.stringMatchingRegex(reason),
+  });
+
+export default describe("validate-icon", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+  });
+
+  describe("validateIcon", () => {
+    it("should read the size of a PNG icon", async () => {
+      memoryFs.addFile("/app/icon.png", createPng(512, 512));
+
+      expect(await validateIcon("/app/icon.png")).toEqual({
+        format: "png",
+        width: 512,
+        height: 512,
+      });
+    });
+
+    it("should reject PNG icons that are too small", async () => {
+      memoryFs.addFile("/app/icon.png", createPng(128, 128));
+
+      await expectInvalid("/app/icon.png", /at least 256x256, but it is 128/);
+    });
+
+    it("should reject files that are not PNG images", async () => {
+      memoryFs.addFile("/app/icon.png", "<svg width='256' height='256'>");
+
+      await expectInvalid("/app/icon.png", /file is not a valid PNG image/);
+    });
+
+    it("should read the size of an SVG icon", async () => {
+      memoryFs.addFile(
+        "/app/icon.svg",
+        `<?xml version="1.0"?>\n<svg width="128px" height='128'></svg>`,
+      );
+
+      expect(await validateIcon("/app/icon.svg")).toEqual({
+        format: "svg",
+        width: 128,
+        height: 128,
+      });
+    });
+
+    it("should read the size of an SVG icon from the viewBox", async () => {
+      memoryFs.addFile("/app/icon.svg", `<svg viewBox="0 0 64 64"></svg>`);
+
+      expect(await validateIcon("/app/icon.svg")).toEqual({
+        format: "svg",
+        width: 64,
+        height: 64,
+      });
+    });
+
+    it("should reject SVG icons without a size", async () => {
+      memoryFs.addFile("/app/icon.svg", `<svg width="100%"></svg>`);
+
+      await expectInvalid("/app/icon.svg", /must define its size/);
+    });
+
+    it("should reject icons that are not square", async () => {
+      memoryFs.addFile("/app/icon.svg", `<svg viewBox="0 0 64 32"></svg>`);
+
+      await expectInvalid("/app/icon.svg", /must be square, but it is 64x32/);
+    });
+
+    it("should reject the unsupported and missing files", async () => {
+      memoryFs.addFile("/app/icon.jpg", "");
+      memoryFs.addFile("/app/icon-symbolic.png", createPng(256, 256));
+
+      await expectInvalid("/app/icon.jpg", /only SVG and PNG icons/);
+      await expectInvalid("/app/icon-symbolic.png", /must be SVG images/, {
+        symbolic: true,
+      });
+      await expectInvalid("/app/missing.svg", /file does not exist/);
+    });
+  });
+
+  describe("validateIconName", () => {
+    it("should accept the application IDs", () => {
+      expect(validateIconName("com.example.My_App-2")).toEqual(
+        "com.example.My_App-2",
+      );
+    });
+
+    it("should reject names with other characters", () => {
+      expect(() => validateIconName("my app")).toThrow();
+      expect(() => validateIconName(".hidden")).toThrow();
+      expect(() => validateIconName("app/icon")).toThrow();
+    });
+  });
+});
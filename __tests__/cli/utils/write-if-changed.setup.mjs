@@ -0,0 +1,5 @@
+export default {
+  mocks: {
+    "fs/promises": "./__tests__/cli/mocks/fs-promises.ts",
+  },
+};
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from "@reactgjs/gest";
+import {
+  copyIfChanged,
+  writeIfChanged,
+} from "../../../src/utils/write-if-changed";
+import { memoryFs } from "../mocks/memory-fs";
+
+export default describe("write-if-changed", () => {
+  beforeEach(() => {
+    memoryFs.reset();
+    memoryFs.addDir("/build");
+  });
+
+  describe("writeIfChanged", () => {
+    it("should not write the file if the content is the same", async () => {
+      memoryFs.addFile("/build/meson.build", "project('myapp')");
+
+      await writeIfChanged("/build/meson.build", "project('myapp')");
+
+      expect(memoryFs.operations).toEqual([]);
+    });
+
+    it("should write the new and changed files", async () => {
+      memoryFs.addFile("/build/meson.build", "project('myapp')");
+
+      await writeIfChanged("/build/meson.build", "project('other')");
+      await writeIfChanged("/build/package.json", "{}");
+
+      expect(memoryFs.operations).toEqual([
+        "write /build/meson.build",
+        "write /build/package.json",
+      ]);
+      expect(memoryFs.readFile("/build/meson.build").toString()).toEqual(
+        "project('other')",
+      );
+    });
+  });
+
+  describe("copyIfChanged", () => {
+    it("should copy only the new and changed files", async () => {
+      memoryFs.addFile("/app/icon.svg", "<svg/>");
+      memoryFs.addFile("/app/LICENSE", "MIT");
+      memoryFs.addFile("/app/README.md", "# myapp");
+      memoryFs.addFile("/build/icon.svg", "<svg/>");
+      memoryFs.addFile("/build/LICENSE", "GPL");
+
+      await copyIfChanged("/app/icon.svg", "/build/icon.svg");
+      await copyIfChanged("/app/LICENSE", "/build/LICENSE");
+      await copyIfChanged("/app/README.md", "/build/README.md");
+
+      expect(memoryFs.operations).toEqual([
+        "copy /app/LICENSE /build/LICENSE",
+        "copy /app/README.md /build/README.md",
+      ]);
+    });
+
+    it("should fail if the source file doesn't exist", async () => {
+      await expect(
+        copyIfChanged("/app/missing.svg", "/build/missing.svg"),
+      ).toRejectMatch({ code: "ENOENT" });
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Runs the callback with the global `process` replaced by the given
+ * object, the original `process` is restored once it's done.
+ */
+export const withProcess = async <R>(
+  fakeProcess: { env?: Record<string, string>; argv?: string[] },
+  fn: () => R | Promise<R>,
+): Promise<R> => {
+  const originalProcess = globalThis.process;
+
+  Object.defineProperty(globalThis, "process", {
+    value: fakeProcess,
+    configurable: true,
+    writable: true,
+  });
+
+  try {
+    return await fn();
+  } finally {
+    Object.defineProperty(globalThis, "process", {
+      value: originalProcess,
+      configurable: true,
+      writable: true,
+    });
+  }
+};
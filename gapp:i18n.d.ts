@@ -0,0 +1,23 @@
+declare module "gapp:i18n" {
+  /** The gettext domain of the application, same as the app ID. */
+  export const domain: string;
+
+  /** Translates the given message. */
+  export function _(msgid: string): string;
+
+  /**
+   * Translates the given message, choosing the singular or plural
+   * form based on `n`.
+   */
+  export function ngettext(
+    msgid: string,
+    msgidPlural: string,
+    n: number,
+  ): string;
+
+  /**
+   * Translates the given message in the given context. Context is
+   * used to differentiate the same message used in different meanings.
+   */
+  export function pgettext(context: string, msgid: string): string;
+}
@@ -0,0 +1,41 @@
+declare module "gapp:settings" {
+  import type Gio from "gi://Gio";
+  import type GObject from "gi://GObject";
+
+  /**
+   * Map of all the settings defined in the config file. It is
+   * augmented by the generated `gapp-settings.d.ts` file.
+   */
+  export interface SettingsSchema {}
+
+  export type SettingAccessor<T> = {
+    get(): T;
+    set(value: T): void;
+    /** Restores the default value of the setting. */
+    reset(): void;
+    /**
+     * Calls the callback each time the setting value changes.
+     * Returns a function that removes the listener.
+     */
+    onChanged(cb: (value: T) => void): () => void;
+    /**
+     * Binds the setting to the given property of the object.
+     * Returns a function that removes the binding.
+     */
+    bind(
+      object: GObject.Object,
+      property: string,
+      flags?: Gio.SettingsBindFlags,
+    ): () => void;
+  };
+
+  export const schemaId: string;
+
+  export function getGSettings(): Gio.Settings;
+
+  const settings: {
+    readonly [K in keyof SettingsSchema]: SettingAccessor<SettingsSchema[K]>;
+  };
+
+  export default settings;
+}
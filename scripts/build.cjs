@@ -1,5 +1,5 @@
 const { build } = require("@ncpa0cpl/nodepack");
-const { toJsonSchema, toTsType, getMetadata } = require("dilswer");
+const { toTsType, getMetadata } = require("dilswer");
 const path = require("path");
 const fs = require("fs/promises");
 
@@ -51,11 +51,11 @@ async function main() {
     ]);
 
     const { ConfigSchema } = require(p("dist/cjs/config/config-schema.cjs"));
+    const { getConfigJsonSchema } = require(
+      p("dist/cjs/config/config-json-schema.cjs"),
+    );
 
-    const configJsonSchema = toJsonSchema(ConfigSchema, {
-      additionalProperties: false,
-      incompatibleTypes: "omit",
-    });
+    const configJsonSchema = getConfigJsonSchema();
 
     await fs.writeFile(
       p("dist/config-schema.json"),
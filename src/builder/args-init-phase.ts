@@ -0,0 +1,69 @@
+import type { CommandInitPhase, Option } from "clify.js";
+import type { Cmd } from "clify.js/dist/types/commands/command";
+import type {
+  Opt,
+  OptConstructor,
+  OptionType,
+} from "clify.js/dist/types/options/option";
+import { ConfigError } from "./builder-errors";
+
+/**
+ * The part of the command the options read when they are
+ * initialized, the arguments parsed from the command line.
+ */
+type ArgsCommand = Pick<Cmd, "getParsedArgs">;
+
+/**
+ * Options created with `defineOption` are subclasses of `Opt`, which
+ * only need the parsed arguments from the command.
+ */
+type OptClass<T extends OptionType, R extends boolean> = new(
+  command: ArgsCommand,
+) => Opt<T, R>;
+
+/**
+ * Initializes the options of a program from the given values, in
+ * place of the command line arguments. The values are keyed by
+ * the option names and validated the same way as on the command line.
+ */
+export class ArgsInitPhase implements CommandInitPhase {
+  private command: ArgsCommand;
+
+  constructor(args: Record<string, unknown>) {
+    const parsedArgs = {
+      _: [],
+      // an option that is present must have a value
+      ...Object.fromEntries(
+        Object.entries(args).filter(([, value]) => value !== undefined),
+      ),
+    };
+
+    this.command = { getParsedArgs: () => parsedArgs };
+  }
+
+  setDescription() {}
+
+  option<T extends OptionType, R extends boolean>(
+    OptionClass: OptConstructor<T, R>,
+  ): Option<T, R> {
+    const option = new (OptionClass as OptClass<T, R>)(this.command);
+
+    const error = option.init();
+
+    if (error) {
+      throw new ConfigError(error.toPrintable());
+    }
+
+    return option;
+  }
+
+  input(): never {
+    throw new Error("Programs run by the builder don't read the input.");
+  }
+
+  inputStream(): never {
+    throw new Error("Programs run by the builder don't read the input.");
+  }
+
+  printHelp() {}
+}
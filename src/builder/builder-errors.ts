@@ -0,0 +1,52 @@
+import type esbuild from "esbuild";
+
+/**
+ * Base class of all the errors thrown by the builder API.
+ */
+export class BuilderError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "BuilderError";
+  }
+}
+
+/**
+ * The config, or the options given to the builder, are invalid.
+ */
+export class ConfigError extends BuilderError {
+  constructor(
+    message: string,
+    /** Path of the invalid property, if known. */
+    readonly fieldPath?: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * esbuild failed to bundle the app.
+ */
+export class BuildError extends BuilderError {
+  constructor(
+    readonly errors: esbuild.Message[],
+    readonly warnings: esbuild.Message[],
+    options?: ErrorOptions,
+  ) {
+    const locations = errors.map((e) => {
+      const location = e.location
+        ? `${e.location.file}:${e.location.line}:${e.location.column}: `
+        : "";
+      return `  ${location}${e.text}`;
+    });
+
+    super(
+      `Build failed with ${errors.length} error${
+        errors.length === 1 ? "" : "s"
+      }:\n${locations.join("\n")}`,
+      options,
+    );
+    this.name = "BuildError";
+  }
+}
@@ -0,0 +1,54 @@
+import type esbuild from "esbuild";
+import type { BuilderError } from "./builder-errors";
+
+export type BuildResource = {
+  /** Absolute path of the imported file. */
+  filePath: string;
+  /** URI under which the file is available to the app. */
+  uri: string;
+};
+
+export type BuildOutput = {
+  /** Absolute paths of the files written by esbuild. */
+  outputFiles: string[];
+  metafile?: esbuild.Metafile;
+  warnings: esbuild.Message[];
+  errors: esbuild.Message[];
+  /** Files imported by the app and bundled as GResources. */
+  resources: BuildResource[];
+};
+
+export type BuildStartEvent = {
+  /** Whether the build was triggered by a change in watch mode. */
+  isRebuild: boolean;
+};
+
+export type BuildEndEvent = {
+  isRebuild: boolean;
+  /** Duration of the build in milliseconds. */
+  duration: number;
+  output: BuildOutput;
+};
+
+export type AppExitEvent = {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+};
+
+/**
+ * Events emitted by a program while it runs, `error` is emitted for
+ * the failures that happen outside of the program's main function,
+ * e.g. when the app can't be started after a rebuild.
+ */
+export type ProgramEvents = {
+  buildStart: [BuildStartEvent];
+  buildEnd: [BuildEndEvent];
+  /** A build triggered by a change in watch mode has finished. */
+  rebuild: [BuildEndEvent];
+  appExit: [AppExitEvent];
+  error: [unknown];
+};
+
+export type BuilderEvents =
+  & Omit<ProgramEvents, "error">
+  & { error: [BuilderError] };
@@ -0,0 +1,284 @@
+import { EventEmitter } from "events";
+import type { ConfigFile } from "../config/config-file-type";
+import { resolveConfig } from "../config/parse-config";
+import {
+  ConfigValidationError,
+  validateConfig,
+} from "../config/validate-config";
+import type { Program } from "../programs/base";
+import type { BuildTarget } from "../programs/build-program";
+import { BuildProgram } from "../programs/build-program";
+import { BundleProgram } from "../programs/bundle-program";
+import { StartProgram } from "../programs/start-program";
+import { prepareConfig, readConfig } from "../utils/read-config";
+import { ArgsInitPhase } from "./args-init-phase";
+import { BuildError, BuilderError, ConfigError } from "./builder-errors";
+import type {
+  BuilderEvents,
+  BuildOutput,
+  ProgramEvents,
+} from "./builder-events";
+
+export type BuilderOptions = {
+  /** @default "production" */
+  mode?: "development" | "production";
+  /**
+   * The project directory, all the paths in the config are relative
+   * to it.
+   *
+   * @default process.cwd()
+   */
+  cwd?: string;
+};
+
+export type BundleOptions = {
+  /**
+   * Rebuild on changes, until the builder is closed. The returned
+   * result is the one of the first build.
+   */
+  watch?: boolean;
+  /** Write a report of the bundle contents to the output directory. */
+  analyze?: boolean;
+};
+
+export type PackageOptions = {
+  /** @default "tarball" */
+  target?: BuildTarget;
+  analyze?: boolean;
+  /** Remove the build directory before building. */
+  clean?: boolean;
+  /** Build the package twice and check that both are the same. */
+  verifyReproducible?: boolean;
+};
+
+export type StartOptions = {
+  /**
+   * Rebuild and restart the app on changes, until the builder is
+   * closed.
+   */
+  watch?: boolean;
+  clean?: boolean;
+  /** Run the app through meson instead of gjs. */
+  meson?: boolean;
+  /**
+   * Update the running app in place after a rebuild, in development
+   * mode.
+   *
+   * @default true
+   */
+  hot?: boolean;
+  /** Open the GTK inspector along with the app. */
+  inspector?: boolean;
+  /** In watch mode, start the app again when it crashes. */
+  restartOnCrash?: boolean;
+  /** Environment variables to set for the app. */
+  env?: Record<string, string>;
+  /** Arguments passed to the app. */
+  appArgs?: string[];
+};
+
+export type BundleResult = BuildOutput;
+
+export type PackageResult = BuildOutput & {
+  /** Absolute paths of the created packages. */
+  packages: string[];
+};
+
+export type StartResult = BuildOutput;
+
+const FORWARDED_EVENTS = [
+  "buildStart",
+  "buildEnd",
+  "rebuild",
+  "appExit",
+] as const satisfies Array<keyof ProgramEvents>;
+
+const toBuilderError = (e: unknown): BuilderError => {
+  if (e instanceof BuilderError) {
+    return e;
+  }
+
+  if (e instanceof ConfigValidationError) {
+    return new ConfigError(e.message, e.fieldPath, { cause: e });
+  }
+
+  if (e instanceof Error && "fieldPath" in e) {
+    // validation error of dilswer
+    const fieldPath = String(e.fieldPath);
+    return new ConfigError(
+      `Config property '${fieldPath}' is invalid.`,
+      fieldPath,
+      { cause: e },
+    );
+  }
+
+  if (e instanceof Error && "errors" in e && Array.isArray(e.errors)) {
+    // build failure of esbuild
+    const warnings = "warnings" in e && Array.isArray(e.warnings)
+      ? e.warnings
+      : [];
+    return new BuildError(e.errors, warnings, { cause: e });
+  }
+
+  return new BuilderError(e instanceof Error ? e.message : String(e), {
+    cause: e,
+  });
+};
+
+/**
+ * Runs the `bundle`, `build` and `start` commands from Node. Unlike
+ * the CLI, the results are returned, the progress is reported with
+ * events and the failures are thrown as `BuilderError`s.
+ *
+ * Errors that happen after a method has returned, e.g. when the
+ * app can't be restarted in watch mode, are emitted as the `error`
+ * event.
+ */
+export class Builder extends EventEmitter<BuilderEvents> {
+  private readonly mode: "development" | "production";
+  private readonly cwd: string;
+  private programs = new Set<Program>();
+
+  constructor(
+    private config?: ConfigFile,
+    options: BuilderOptions = {},
+  ) {
+    super();
+    this.mode = options.mode ?? "production";
+    this.cwd = options.cwd ?? process.cwd();
+  }
+
+  private createProgram<P extends Program>(
+    ProgramClass: new(init: ArgsInitPhase) => P,
+    args: Record<string, unknown>,
+  ) {
+    const program = new ProgramClass(
+      new ArgsInitPhase({ mode: this.mode, ...args }),
+    );
+    program.cwd = this.cwd;
+    return program;
+  }
+
+  private async resolveConfig(program: Program) {
+    if (!this.config) {
+      return await readConfig(program);
+    }
+
+    const config = await resolveConfig(
+      this.config,
+      { mode: this.mode },
+      this.cwd,
+    );
+
+    validateConfig(config);
+
+    return prepareConfig(config, this.cwd);
+  }
+
+  /**
+   * Runs the program and returns the output of its first build.
+   */
+  private async runProgram(program: Program) {
+    const firstBuild = new Promise<BuildOutput>((resolve) => {
+      program.events.once("buildEnd", (event) => resolve(event.output));
+    });
+
+    for (const event of FORWARDED_EVENTS) {
+      program.events.on(event, (payload: any) => this.emit(event, payload));
+    }
+
+    program.events.on("error", (e) => {
+      this.emit("error", toBuilderError(e));
+    });
+
+    this.programs.add(program);
+
+    try {
+      const config = await this.resolveConfig(program);
+      await program.runEmbedded(config);
+      return await firstBuild;
+    } catch (e) {
+      this.programs.delete(program);
+      await program.close();
+      throw toBuilderError(e);
+    }
+  }
+
+  /**
+   * Bundles the app into a single js file in the output directory.
+   */
+  async bundle(options: BundleOptions = {}): Promise<BundleResult> {
+    const program = this.createProgram(BundleProgram, {
+      watch: options.watch,
+      analyze: options.analyze,
+    });
+
+    return await this.runProgram(program);
+  }
+
+  /**
+   * Bundles the app, generates the meson project and creates the
+   * packages for the given target.
+   */
+  async build(options: PackageOptions = {}): Promise<PackageResult> {
+    const program = this.createProgram(BuildProgram, {
+      target: options.target,
+      analyze: options.analyze,
+      clean: options.clean,
+      "verify-reproducible": options.verifyReproducible,
+    });
+
+    const output = await this.runProgram(program);
+
+    return { ...output, packages: program.packages };
+  }
+
+  /**
+   * Builds and starts the app. Returns once the first build is done,
+   * the exit of the app is reported with the `appExit` event.
+   */
+  async start(options: StartOptions = {}): Promise<StartResult> {
+    const program = this.createProgram(StartProgram, {
+      watch: options.watch,
+      clean: options.clean,
+      meson: options.meson,
+      hot: options.hot,
+      inspector: options.inspector,
+      "restart-on-crash": options.restartOnCrash,
+      env: Object.entries(options.env ?? {}).map(
+        ([key, value]) => `${key}=${value}`,
+      ),
+    });
+    program.appArgs = options.appArgs ?? [];
+
+    return await this.runProgram(program);
+  }
+
+  /**
+   * Stops watching for changes and the started apps.
+   */
+  async close() {
+    const programs = [...this.programs];
+    this.programs.clear();
+
+    for (const program of programs) {
+      await program.close();
+    }
+  }
+}
+
+/**
+ * Creates a builder for the given config. If no config is given,
+ * the `react-gtk.config.*` file in the project directory is used.
+ *
+ * @example
+ *   const builder = createBuilder(config, { mode: "development" });
+ *   builder.on("buildEnd", ({ duration }) => console.log(duration));
+ *
+ *   const { outputFiles, warnings } = await builder.bundle();
+ */
+export const createBuilder = (
+  config?: ConfigFile,
+  options?: BuilderOptions,
+) =>
+  new Builder(config, options);
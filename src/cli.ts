@@ -1,8 +1,17 @@
-import { configure } from "clify.js";
+import { Clify, configure } from "clify.js";
+import { Builder, createBuilder } from "./builder/create-builder";
 import { BuildProgram } from "./programs/build-program";
 import { BundleProgram } from "./programs/bundle-program";
+import { ConfigPrintProgram } from "./programs/config-print-program";
+import { ConfigSchemaProgram } from "./programs/config-schema-program";
+import { ConfigValidateProgram } from "./programs/config-validate-program";
+import { DoctorProgram } from "./programs/doctor-program";
+import { I18nExtractProgram } from "./programs/i18n-extract-program";
 import { InitProgram } from "./programs/init-program";
+import { InstallProgram } from "./programs/install-program";
 import { StartProgram } from "./programs/start-program";
+import { UninstallProgram } from "./programs/uninstall-program";
+import { getCliArgs } from "./utils/passthrough-args";
 
 const program = configure((main) => {
   main.setName("react-gtk");
@@ -28,14 +37,94 @@ const program = configure((main) => {
     return () => build.run();
   });
 
+  main.command("install", (cmd) => {
+    cmd.setDescription(
+      "Build the app and install it for the current user, or under the given prefix.",
+    );
+
+    const install = new InstallProgram(cmd);
+
+    return () => install.run();
+  });
+
+  main.command("uninstall", (cmd) => {
+    cmd.setDescription("Remove the files installed by the install command.");
+
+    const uninstall = new UninstallProgram(cmd);
+
+    return () => uninstall.run();
+  });
+
   main.command("start", (cmd) => {
-    cmd.setDescription("Build and run the app immediately.");
+    cmd.setDescription(
+      "Build and run the app immediately. Arguments after `--` are passed to the app.",
+    );
 
     const start = new StartProgram(cmd);
 
     return () => start.run();
   });
 
+  const i18n = main.command("i18n", (cmd) => {
+    cmd.setDescription("Manage the application translations.");
+
+    return () => cmd.printHelp();
+  });
+
+  i18n.command("extract", (cmd) => {
+    cmd.setDescription(
+      "Extract the translatable messages from the application source into a POT file in the po directory.",
+    );
+
+    const extract = new I18nExtractProgram(cmd);
+
+    return () => extract.run();
+  });
+
+  const config = main.command("config", (cmd) => {
+    cmd.setDescription("Inspect and validate the project config.");
+
+    return () => cmd.printHelp();
+  });
+
+  config.command("print", (cmd) => {
+    cmd.setDescription(
+      "Print the config of the given mode as JSON, after merging the extended configs and applying the defaults, along with the computed app ID, app name and environment variables.",
+    );
+
+    const print = new ConfigPrintProgram(cmd);
+
+    return () => print.run();
+  });
+
+  config.command("validate", (cmd) => {
+    cmd.setDescription(
+      "Validate the config, exits with a non-zero code if it's invalid.",
+    );
+
+    const validate = new ConfigValidateProgram(cmd);
+
+    return () => validate.run();
+  });
+
+  config.command("schema", (cmd) => {
+    cmd.setDescription("Print the JSON Schema of the config file.");
+
+    const schema = new ConfigSchemaProgram(cmd);
+
+    return () => schema.run();
+  });
+
+  main.command("doctor", (cmd) => {
+    cmd.setDescription(
+      "Check that all the tools and libraries needed to build and run the app are installed.",
+    );
+
+    const doctor = new DoctorProgram(cmd);
+
+    return () => doctor.run();
+  });
+
   main.command("init", (cmd) => {
     cmd.setDescription(
       "Initialize a new project with the necessary files and scripts.",
@@ -51,9 +140,42 @@ const program = configure((main) => {
  * Invokes the CLI program.
  *
  * if `command` or `args` are not provided, `process.argv` will be used.
+ * Arguments after `--` are not parsed, they are meant for the app
+ * started by the `start` command.
  */
 export async function start(command?: string, args?: Record<string, any>) {
+  Clify.setArgGetter(getCliArgs);
   program.run(command, args);
 }
 
-export { BuildProgram, BundleProgram, InitProgram, StartProgram };
+export {
+  BuildError,
+  BuilderError,
+  ConfigError,
+} from "./builder/builder-errors";
+export type * from "./builder/builder-events";
+export type {
+  BuilderOptions,
+  BundleOptions,
+  BundleResult,
+  PackageOptions,
+  PackageResult,
+  StartOptions,
+  StartResult,
+} from "./builder/create-builder";
+
+export {
+  Builder,
+  BuildProgram,
+  BundleProgram,
+  ConfigPrintProgram,
+  ConfigSchemaProgram,
+  ConfigValidateProgram,
+  createBuilder,
+  DoctorProgram,
+  I18nExtractProgram,
+  InitProgram,
+  InstallProgram,
+  StartProgram,
+  UninstallProgram,
+};
@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+import type { Config } from "./config-type";
+import { ConfigValidationError } from "./validate-config";
+
+/**
+ * Extensions tried by esbuild when an import path has none.
+ */
+const ENTRYPOINT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js", ".css", ".json"];
+
+const isFile = (filePath: string) => {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Resolves the entrypoint the same way esbuild does, trying the
+ * default extensions and the index file of a directory.
+ */
+const resolveEntrypoint = (entrypoint: string) => {
+  const candidates = [
+    entrypoint,
+    ...ENTRYPOINT_EXTENSIONS.map((ext) => entrypoint + ext),
+    ...ENTRYPOINT_EXTENSIONS.map((ext) => path.join(entrypoint, "index" + ext)),
+  ];
+  return candidates.find(isFile);
+};
+
+/**
+ * Checks that the files referenced by the config exist, so that the
+ * mistakes are reported before the build starts.
+ */
+export const checkConfigFiles = (config: Config, cwd: string) => {
+  const entrypoint = path.resolve(cwd, config.entrypoint);
+
+  if (!resolveEntrypoint(entrypoint)) {
+    throw new ConfigValidationError(
+      `Config property 'entrypoint' is invalid.\n  The file '${config.entrypoint}' could not be resolved from '${cwd}'.`,
+      "entrypoint",
+    );
+  }
+
+  const envFilePath = config.envVars?.envFilePath;
+
+  if (envFilePath !== undefined && !isFile(path.resolve(cwd, envFilePath))) {
+    throw new ConfigValidationError(
+      `Config property 'envVars.envFilePath' is invalid.\n  The file '${envFilePath}' does not exist.`,
+      "envVars.envFilePath",
+    );
+  }
+};
@@ -0,0 +1,17 @@
+import type { Config } from "./config-type";
+
+// Declared in terms of the `Config`, since the declaration of the
+// `Config` is generated from the schema when the package is built
+
+export type ConfigOverrides = Partial<Config>;
+
+/**
+ * Contents of a config file, see the `ConfigFileSchema`.
+ */
+export type ConfigFile = ConfigOverrides & {
+  extends?: string;
+  modes?: {
+    development?: ConfigOverrides;
+    production?: ConfigOverrides;
+  };
+};
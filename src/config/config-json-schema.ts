@@ -0,0 +1,12 @@
+import { toJsonSchema } from "dilswer";
+import { ConfigFileSchema } from "./config-schema";
+
+/**
+ * JSON Schema of the config file, used by editors to validate and
+ * complete JSON configs.
+ */
+export const getConfigJsonSchema = () =>
+  toJsonSchema(ConfigFileSchema, {
+    additionalProperties: false,
+    incompatibleTypes: "omit",
+  });
@@ -1,5 +1,6 @@
-import { DataType, OptionalField } from "dilswer";
+import { DataType, OptionalField, Partial } from "dilswer";
 import type { Plugin as EsbuildPlugin } from "esbuild";
+import type { TemplateOverride } from "../programs/build-program";
 
 export const EsbuildPluginDataType = DataType.Custom(
   (v): v is EsbuildPlugin =>
@@ -13,12 +14,30 @@ export const EsbuildPluginDataType = DataType.Custom(
     originalName: "Plugin",
   });
 
+const TemplateOverrideDataType = DataType.Custom(
+  (v): v is TemplateOverride => typeof v === "function",
+)
+  .setTitle("TemplateOverride")
+  .setExtra({
+    extraType: "external-import",
+    path: "../programs/build-program",
+    typeName: "TemplateOverride",
+    originalName: "TemplateOverride",
+  });
+
 const RegexDataType = DataType.InstanceOf(RegExp);
 
 RegexDataType.setDescription(
   "A Regular expression. Only supported in JavaScript config files.",
 );
 
+const OarsValueDataType = DataType.OneOf(
+  DataType.Literal("none"),
+  DataType.Literal("mild"),
+  DataType.Literal("moderate"),
+  DataType.Literal("intense"),
+);
+
 export const ConfigSchema = DataType.RecordOf({
   applicationName: DataType.String,
   applicationVersion: DataType.String,
@@ -42,6 +61,12 @@ export const ConfigSchema = DataType.RecordOf({
   esbuildPlugins: OptionalField(DataType.ArrayOf(EsbuildPluginDataType)),
   externalPackages: OptionalField(DataType.ArrayOf(DataType.String)),
   friendlyName: OptionalField(DataType.String),
+  icon: OptionalField(
+    DataType.RecordOf({
+      source: DataType.String,
+      symbolic: OptionalField(DataType.String),
+    }),
+  ),
   giVersions: OptionalField(
     DataType.RecordOf({
       Gtk: OptionalField(DataType.Literal("3.0")),
@@ -66,9 +91,134 @@ export const ConfigSchema = DataType.RecordOf({
       xlib: OptionalField(DataType.String),
     }),
   ),
+  i18n: OptionalField(
+    DataType.RecordOf({
+      poDir: OptionalField(DataType.String),
+    }),
+  ),
   license: OptionalField(DataType.String),
+  metadata: OptionalField(
+    DataType.RecordOf({
+      summary: OptionalField(DataType.String),
+      description: OptionalField(DataType.ArrayOf(DataType.String)),
+      homepage: OptionalField(DataType.String),
+      bugtracker: OptionalField(DataType.String),
+      developer: OptionalField(
+        DataType.RecordOf({
+          id: OptionalField(DataType.String),
+          name: DataType.String,
+        }),
+      ),
+      screenshots: OptionalField(
+        DataType.ArrayOf(
+          DataType.RecordOf({
+            url: DataType.String,
+            caption: OptionalField(DataType.String),
+            default: OptionalField(DataType.Boolean),
+          }),
+        ),
+      ),
+      releases: OptionalField(
+        DataType.ArrayOf(
+          DataType.RecordOf({
+            version: DataType.String,
+            date: DataType.String,
+            description: OptionalField(DataType.ArrayOf(DataType.String)),
+          }),
+        ),
+      ),
+      categories: OptionalField(DataType.ArrayOf(DataType.String)),
+      keywords: OptionalField(DataType.ArrayOf(DataType.String)),
+      contentRating: OptionalField(DataType.Dict(OarsValueDataType)),
+    }),
+  ),
   minify: OptionalField(DataType.Boolean),
   outDir: DataType.String,
+  packaging: OptionalField(
+    DataType.RecordOf({
+      flatpak: OptionalField(
+        DataType.RecordOf({
+          runtime: OptionalField(DataType.String),
+          runtimeVersion: DataType.String,
+          sdk: OptionalField(DataType.String),
+          manifestFormat: OptionalField(
+            DataType.OneOf(DataType.Literal("json"), DataType.Literal("yml")),
+          ),
+          permissions: OptionalField(
+            DataType.RecordOf({
+              network: OptionalField(DataType.Boolean),
+              filesystem: OptionalField(DataType.ArrayOf(DataType.String)),
+              talkNames: OptionalField(DataType.ArrayOf(DataType.String)),
+              ownNames: OptionalField(DataType.ArrayOf(DataType.String)),
+              systemTalkNames: OptionalField(
+                DataType.ArrayOf(DataType.String),
+              ),
+            }),
+          ),
+          finishArgs: OptionalField(DataType.ArrayOf(DataType.String)),
+        }),
+      ),
+      deb: OptionalField(
+        DataType.RecordOf({
+          packageName: OptionalField(DataType.String),
+          revision: OptionalField(DataType.String),
+          maintainer: DataType.String,
+          section: OptionalField(DataType.String),
+          priority: OptionalField(DataType.String),
+          depends: OptionalField(DataType.ArrayOf(DataType.String)),
+        }),
+      ),
+      templates: OptionalField(
+        DataType.RecordOf({
+          getMainMesonBuild: OptionalField(TemplateOverrideDataType),
+          getPackageJson: OptionalField(TemplateOverrideDataType),
+          getInFile: OptionalField(TemplateOverrideDataType),
+          getGResourceXml: OptionalField(TemplateOverrideDataType),
+          getSrcMesonBuild: OptionalField(TemplateOverrideDataType),
+          getAppData: OptionalField(TemplateOverrideDataType),
+          getDataBusname: OptionalField(TemplateOverrideDataType),
+          getDataDesktopEntry: OptionalField(TemplateOverrideDataType),
+          getDataGSchema: OptionalField(TemplateOverrideDataType),
+          getDataResources: OptionalField(TemplateOverrideDataType),
+          getDataService: OptionalField(TemplateOverrideDataType),
+          getDataMesonBuild: OptionalField(TemplateOverrideDataType),
+          getExtraMesonBuild: OptionalField(TemplateOverrideDataType),
+          getIconsMesonBuild: OptionalField(TemplateOverrideDataType),
+          getIconSizeMesonBuild: OptionalField(TemplateOverrideDataType),
+          getLinguas: OptionalField(TemplateOverrideDataType),
+          getPoMesonBuild: OptionalField(TemplateOverrideDataType),
+          getPostInstallScript: OptionalField(TemplateOverrideDataType),
+          getScaleIconScript: OptionalField(TemplateOverrideDataType),
+          getFlatpakManifest: OptionalField(TemplateOverrideDataType),
+          getRpmSpec: OptionalField(TemplateOverrideDataType),
+          getDebControl: OptionalField(TemplateOverrideDataType),
+          getDebPostinst: OptionalField(TemplateOverrideDataType),
+        }),
+      ),
+      mesonSnippets: OptionalField(
+        DataType.RecordOf({
+          main: OptionalField(DataType.String),
+          data: OptionalField(DataType.String),
+          src: OptionalField(DataType.String),
+          po: OptionalField(DataType.String),
+        }),
+      ),
+      extraFiles: OptionalField(
+        DataType.ArrayOf(
+          DataType.RecordOf({
+            source: DataType.String,
+            installDir: DataType.OneOf(
+              DataType.Literal("datadir"),
+              DataType.Literal("bindir"),
+              DataType.Literal("pkgdatadir"),
+            ),
+            destination: OptionalField(DataType.String),
+            executable: OptionalField(DataType.Boolean),
+          }),
+        ),
+      ),
+    }),
+  ),
   polyfills: OptionalField(
     DataType.RecordOf({
       AbortController: OptionalField(DataType.Boolean),
@@ -99,6 +249,35 @@ export const ConfigSchema = DataType.RecordOf({
       }),
     ),
   ),
+  settings: OptionalField(
+    DataType.Dict(
+      DataType.RecordOf({
+        type: DataType.OneOf(
+          DataType.Literal("boolean"),
+          DataType.Literal("string"),
+          DataType.Literal("int"),
+          DataType.Literal("double"),
+          DataType.Literal("string[]"),
+          DataType.Literal("enum"),
+        ),
+        default: DataType.OneOf(
+          DataType.String,
+          DataType.Number,
+          DataType.Boolean,
+          DataType.ArrayOf(DataType.String),
+        ),
+        summary: OptionalField(DataType.String),
+        description: OptionalField(DataType.String),
+        range: OptionalField(
+          DataType.RecordOf({
+            min: DataType.Number,
+            max: DataType.Number,
+          }),
+        ),
+        choices: OptionalField(DataType.ArrayOf(DataType.String)),
+      }),
+    ),
+  ),
   treeShake: OptionalField(DataType.Boolean),
   beforeBuild: OptionalField(
     DataType.Custom((v): v is (buildDir: string) => any => {
@@ -114,9 +293,31 @@ ConfigSchema.recordOf.esbuildPlugins.type.setTitle("EsbuildPlugins");
 ConfigSchema.recordOf.externalPackages.type.setTitle("ExternalPackages");
 ConfigSchema.recordOf.giVersions.type.setTitle("GiVersions");
 ConfigSchema.recordOf.polyfills.type.setTitle("Polyfills");
+ConfigSchema.recordOf.settings.type.setTitle("Settings");
+ConfigSchema.recordOf.settings.type.dict[0].setTitle("SettingDefinition");
 ConfigSchema.recordOf.polyfills.type.recordOf.node.type.setTitle(
   "NodePolyfills",
 );
+ConfigSchema.recordOf.i18n.type.setTitle("I18n");
+ConfigSchema.recordOf.icon.type.setTitle("Icon");
+ConfigSchema.recordOf.metadata.type.setTitle("Metadata");
+ConfigSchema.recordOf.packaging.type.setTitle("Packaging");
+ConfigSchema.recordOf.packaging.type.recordOf.flatpak.type.setTitle(
+  "FlatpakPackaging",
+);
+ConfigSchema.recordOf.packaging.type.recordOf.flatpak.type.recordOf.permissions
+  .type.setTitle("FlatpakPermissions");
+ConfigSchema.recordOf.packaging.type.recordOf.deb.type.setTitle(
+  "DebPackaging",
+);
+ConfigSchema.recordOf.packaging.type.recordOf.templates.type.setTitle(
+  "PackagingTemplates",
+);
+ConfigSchema.recordOf.packaging.type.recordOf.mesonSnippets.type.setTitle(
+  "MesonSnippets",
+);
+ConfigSchema.recordOf.packaging.type.recordOf.extraFiles.type.arrayOf[0]
+  .setTitle("ExtraFile");
 
 ConfigSchema.recordOf.applicationName.setDescription(
   "The name of the application. It is recommended for this name to only include letters, numbers, dashes and floors. Additional it is invalid to have the first or last letter of the name to be anything else than a letter or a number.",
@@ -186,6 +387,26 @@ ConfigSchema.recordOf.friendlyName.type.setDescription(
   "The friendly name of the application.\nThis is the name you'd want to display to the user.\n If not specified, the application name will be used.",
 );
 
+ConfigSchema.recordOf.icon.type.setDescription(
+  "The application icon. It is installed into the `hicolor` icon theme under the application ID.",
+);
+
+ConfigSchema.recordOf.icon.type.recordOf.source.setDescription(
+  "Path to the icon file. Should be a relative path from the project root. Must be a square SVG image, or a square PNG image that's at least 256x256. All the raster sizes are generated from it during the meson build.",
+);
+
+ConfigSchema.recordOf.icon.type.recordOf.symbolic.type.setDescription(
+  "Path to the symbolic variant of the icon. Should be a relative path from the project root. Must be a square SVG image.",
+);
+
+ConfigSchema.recordOf.i18n.type.setDescription(
+  "Translation settings. Translations are loaded from the `.po` files in the po directory and are accessible in the application through the `gapp:i18n` import. The POT template can be generated with the `react-gtk i18n extract` command.",
+);
+
+ConfigSchema.recordOf.i18n.type.recordOf.poDir.type.setDescription(
+  "The directory containing the `.po` files, each named after the language it translates to (e.g. `de.po`). Should be a relative path from the project root.\n\nDefault is `./po`.",
+);
+
 ConfigSchema.recordOf.license.type.setDescription(
   "The license of the application.\n\nDefault is `GPL-2.0`.",
 );
@@ -194,6 +415,36 @@ ConfigSchema.recordOf.beforeBuild.type.setDescription(
   "A function that will be called before the \"meson build\" command is executed. It will receive the build directory path as an argument.",
 );
 
+const settingDefinition = ConfigSchema.recordOf.settings.type.dict[0];
+
+ConfigSchema.recordOf.settings.type.setDescription(
+  "Persistent application settings. A GSettings schema is generated from these definitions and the settings are accessible in the application through the `gapp:settings` import.\n\nKeys can only contain lowercase letters, numbers and dashes. In the `gapp:settings` module the keys are converted to camelCase.",
+);
+
+settingDefinition.recordOf.type.setDescription(
+  "The type of the setting value, one of `boolean`, `string`, `int`, `double`, `string[]` or `enum`.",
+);
+
+settingDefinition.recordOf.default.setDescription(
+  "The default value of the setting. Must match the setting type.",
+);
+
+settingDefinition.recordOf.summary.type.setDescription(
+  "A short, one line description of the setting.",
+);
+
+settingDefinition.recordOf.description.type.setDescription(
+  "A longer description of the setting.",
+);
+
+settingDefinition.recordOf.range.type.setDescription(
+  "The minimum and maximum value of `int` and `double` settings.",
+);
+
+settingDefinition.recordOf.choices.type.setDescription(
+  "The allowed values of an `enum` setting.",
+);
+
 const polyfills = ConfigSchema.recordOf.polyfills.type;
 
 polyfills.setDescription(
@@ -256,6 +507,185 @@ polyfills.recordOf.node.type.recordOf.os.type.setDescription(
   "Whether the polyfill for the `os` and/or `node:os` package should be included in the generated bundle. When enabled imports of `os` and `node:os` will be replaced with the polyfill.",
 );
 
+const metadata = ConfigSchema.recordOf.metadata.type;
+
+metadata.setDescription(
+  "Information about the application displayed by software centres. It is used to generate the AppStream metadata and the desktop entry.",
+);
+
+metadata.recordOf.summary.type.setDescription(
+  "A short, one line summary of what the application does. Also used as the `Comment` of the desktop entry.",
+);
+
+metadata.recordOf.description.type.setDescription(
+  "A longer description of the application. Each array element is rendered as a separate paragraph.",
+);
+
+metadata.recordOf.homepage.type.setDescription(
+  "URL of the application homepage.",
+);
+
+metadata.recordOf.bugtracker.type.setDescription(
+  "URL of the application bug tracker.",
+);
+
+metadata.recordOf.developer.type.setDescription(
+  "The developer or the project responsible for the application.",
+);
+
+metadata.recordOf.screenshots.type.setDescription(
+  "Screenshots of the application. Unless one of them is marked as the `default`, the first one is used as the default screenshot.",
+);
+
+metadata.recordOf.releases.type.setDescription(
+  "Released versions of the application, newest first. The `date` should be in the `YYYY-MM-DD` format.",
+);
+
+metadata.recordOf.categories.type.setDescription(
+  "Freedesktop categories the application belongs to (for example `Utility` or `Development`). Also added to the desktop entry.",
+);
+
+metadata.recordOf.keywords.type.setDescription(
+  "Keywords used by software centres and app launchers to find the application. Also added to the desktop entry.",
+);
+
+metadata.recordOf.contentRating.type.setDescription(
+  "An OARS 1.1 content rating, a dictionary of OARS attribute IDs (for example `social-chat`) and their intensity.\n\nAttributes that are not specified are treated as `none`.",
+);
+
+const packaging = ConfigSchema.recordOf.packaging.type;
+
+packaging.setDescription(
+  "Settings for the packages produced by the `build` command.",
+);
+
+const flatpak = packaging.recordOf.flatpak.type;
+
+flatpak.setDescription(
+  "Settings for the Flatpak manifest generated when building with `--target flatpak`. The manifest is written next to the tarball and uses it as the module source.",
+);
+
+flatpak.recordOf.runtime.type.setDescription(
+  "The Flatpak runtime the application runs in.\n\nDefault is `org.gnome.Platform`.",
+);
+
+flatpak.recordOf.runtimeVersion.setDescription(
+  "The version of the runtime and the SDK (for example `46`).",
+);
+
+flatpak.recordOf.sdk.type.setDescription(
+  "The Flatpak SDK used to build the application.\n\nDefault is `org.gnome.Sdk`.",
+);
+
+flatpak.recordOf.manifestFormat.type.setDescription(
+  "The format of the generated manifest file, either `json` or `yml`.\n\nDefault is `json`.",
+);
+
+flatpak.recordOf.permissions.type.setDescription(
+  "Sandbox permissions the application needs. These are translated into the `finish-args` of the manifest.",
+);
+
+flatpak.recordOf.permissions.type.recordOf.network.type.setDescription(
+  "Whether the application needs network access.\n\nBy default is disabled.",
+);
+
+flatpak.recordOf.permissions.type.recordOf.filesystem.type.setDescription(
+  "Filesystem locations the application needs access to (for example `home`, `xdg-download` or `~/.config/app:ro`).",
+);
+
+flatpak.recordOf.permissions.type.recordOf.talkNames.type.setDescription(
+  "Session bus names the application needs to talk to.",
+);
+
+flatpak.recordOf.permissions.type.recordOf.ownNames.type.setDescription(
+  "Session bus names the application needs to own, other than its own application ID.",
+);
+
+flatpak.recordOf.permissions.type.recordOf.systemTalkNames.type
+  .setDescription("System bus names the application needs to talk to.");
+
+flatpak.recordOf.finishArgs.type.setDescription(
+  "Additional `finish-args` that will be added to the manifest as is.",
+);
+
+const deb = packaging.recordOf.deb.type;
+
+deb.setDescription(
+  "Settings for the Debian package created when building with `--target deb`.",
+);
+
+deb.recordOf.packageName.type.setDescription(
+  "The name of the Debian package. Can only contain lowercase letters, numbers and the `+`, `-` and `.` characters.\n\nBy default the application name converted to kebab-case is used.",
+);
+
+deb.recordOf.revision.type.setDescription(
+  "The Debian revision appended to the application version (for example `1` results in `1.0.0-1`).",
+);
+
+deb.recordOf.maintainer.setDescription(
+  "The package maintainer, in the `Name <email@example.com>` format.",
+);
+
+deb.recordOf.section.type.setDescription(
+  "The archive section of the package.\n\nDefault is `misc`.",
+);
+
+deb.recordOf.priority.type.setDescription(
+  "The priority of the package.\n\nDefault is `optional`.",
+);
+
+deb.recordOf.depends.type.setDescription(
+  "Additional package dependencies. `gjs` and the GObject Introspection packages of the libraries in `giVersions` are always added.",
+);
+
+packaging.recordOf.templates.type.setDescription(
+  "Replacements for the template generators used to create the packaging files. Each function receives the packaging context and the content generated by the default template, and returns the content that should be used instead.\n\nOverrides can only be added via a JavaScript config file.",
+);
+
+const mesonSnippets = packaging.recordOf.mesonSnippets.type;
+
+mesonSnippets.setDescription(
+  "Meson code appended to the generated `meson.build` files, for adding dependencies or custom install rules.",
+);
+
+mesonSnippets.recordOf.main.type.setDescription(
+  "Appended to the `meson.build` in the project root.",
+);
+
+mesonSnippets.recordOf.data.type.setDescription(
+  "Appended to the `data/meson.build`.",
+);
+
+mesonSnippets.recordOf.src.type.setDescription(
+  "Appended to the `src/meson.build`.",
+);
+
+mesonSnippets.recordOf.po.type.setDescription(
+  "Appended to the `po/meson.build`.",
+);
+
+const extraFile = packaging.recordOf.extraFiles.type.arrayOf[0];
+
+packaging.recordOf.extraFiles.type.setDescription(
+  "Additional files that should be included in the package and installed along with the application.",
+);
+
+extraFile.recordOf.source.setDescription(
+  "Path to the file. Should be a relative path from the project root.",
+);
+
+extraFile.recordOf.installDir.setDescription(
+  "The directory the file is installed into, either `datadir` (e.g. `/usr/share`), `bindir` (e.g. `/usr/bin`) or `pkgdatadir` (e.g. `/usr/share/<app-id>`).",
+);
+
+extraFile.recordOf.destination.type.setDescription(
+  "Path of the installed file, relative to the install directory (for example `sounds/click.ogg`).\n\nBy default the name of the source file is used.",
+);
+
+extraFile.recordOf.executable.type.setDescription(
+  "Whether the installed file should be executable.\n\nBy default is enabled for files installed into `bindir`.",
+);
+
 const { customPolyfills } = ConfigSchema.recordOf;
 
 customPolyfills.type.setDescription(
@@ -269,3 +699,38 @@ customPolyfills.type.arrayOf[0].recordOf.filepath.setDescription(
 customPolyfills.type.arrayOf[0]!.recordOf.importName.type.setDescription(
   "The name of the import that should be replaced with the polyfill (for example `node:fs`, `path`, `os`, etc.). If not specified, each exported member of polyfill will be injected into the global scope.",
 );
+
+/**
+ * Options overridden in a specific build mode, merged into the rest
+ * of the config.
+ */
+export const ConfigOverridesSchema = Partial(ConfigSchema);
+
+ConfigOverridesSchema.setTitle("ConfigOverrides");
+
+/**
+ * Contents of a config file. Any option can be omitted when the
+ * file extends another config, the result of merging all of them is
+ * validated against the `ConfigSchema`.
+ */
+export const ConfigFileSchema = DataType.RecordOf({
+  ...ConfigOverridesSchema.recordOf,
+  extends: OptionalField(DataType.String),
+  modes: OptionalField(
+    DataType.RecordOf({
+      development: OptionalField(ConfigOverridesSchema),
+      production: OptionalField(ConfigOverridesSchema),
+    }),
+  ),
+});
+
+ConfigFileSchema.setTitle("ConfigFile");
+ConfigFileSchema.recordOf.modes.type.setTitle("ConfigModes");
+
+ConfigFileSchema.recordOf.extends.type.setDescription(
+  "Path to a config file this config is based on (relative to this file), or the name of a package exporting one. The options of this config are deep-merged into the options of the base config.\n\nPaths in all the configs are relative to the project directory.",
+);
+
+ConfigFileSchema.recordOf.modes.type.setDescription(
+  "Options used only in the given build mode, deep-merged into the rest of the config. Arrays are replaced, not concatenated.",
+);
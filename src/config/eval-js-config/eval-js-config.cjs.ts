@@ -2,18 +2,29 @@
 /* eslint-disable @typescript-eslint/no-require-imports */
 const path = require("path");
 
+/** Module format the config files are evaluated as. */
+export const configModuleFormat = "cjs";
+
 const getDefault = (module: any) =>
   typeof module === "object" && "default" in module ? module.default : module;
 
-export const evalJsConfigFile = async (
-  config: string,
-): Promise<() => unknown> => {
+/**
+ * Throws when the config file is in a module format that can't be
+ * loaded in the current mode.
+ */
+export const assertConfigFormat = (config: string) => {
   const ext = path.extname(config);
   if (ext === ".mjs" || ext === ".mts") {
     throw new Error(
       `Invalid config file: react-gtk CLI is running in CommonJS mode and can accept only configs in CommonJS module format. To run react-gtk in ESM mode, set the 'type' field in your package.json to 'module'.`,
     );
   }
+};
+
+export const evalJsConfigFile = async (
+  config: string,
+): Promise<() => unknown> => {
+  assertConfigFormat(config);
 
   const defaultExport = getDefault(require(config));
 
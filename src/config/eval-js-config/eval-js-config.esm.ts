@@ -1,14 +1,25 @@
 import path from "path";
 
-export const evalJsConfigFile = async (
-  config: string,
-): Promise<() => unknown> => {
+/** Module format the config files are evaluated as. */
+export const configModuleFormat = "esm";
+
+/**
+ * Throws when the config file is in a module format that can't be
+ * loaded in the current mode.
+ */
+export const assertConfigFormat = (config: string) => {
   const ext = path.extname(config);
   if (ext === ".cjs" || ext === ".cts") {
     throw new Error(
       `Invalid config file: react-gtk CLI is running in ESM mode and can only accept configs in ESModule format. To run react-gtk in CommonJS mode, set the 'type' field in your package.json to 'commonjs'.`,
     );
   }
+};
+
+export const evalJsConfigFile = async (
+  config: string,
+): Promise<() => unknown> => {
+  assertConfigFormat(config);
 
   const defaultExport = await import(config);
 
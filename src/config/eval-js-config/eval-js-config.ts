@@ -3,3 +3,7 @@ import type { ConfigContext } from "../parse-config";
 export declare const evalJsConfigFile: (
   config: string,
 ) => Promise<(context: ConfigContext) => unknown>;
+
+export declare const configModuleFormat: "cjs" | "esm";
+
+export declare const assertConfigFormat: (config: string) => void;
@@ -1,8 +1,15 @@
-import { assertDataType } from "dilswer";
 import fs from "fs/promises";
+import { createRequire } from "module";
 import path from "path";
-import { ConfigSchema } from "./config-schema";
+import { deepMerge } from "../utils/deep-merge";
+import type { ConfigFile } from "./config-file-type";
+import type { Config } from "./config-type";
 import { evalJsConfigFile } from "./eval-js-config/eval-js-config";
+import {
+  removeTranspiledConfig,
+  transpileTsConfig,
+} from "./transpile-ts-config";
+import { validateConfig } from "./validate-config";
 
 export type ConfigContext = {
   mode: "production" | "development";
@@ -10,38 +17,138 @@ export type ConfigContext = {
 
 async function parseJsonConfig(filePath: string) {
   const fileData = await fs.readFile(filePath, "utf-8");
-  const config = JSON.parse(fileData);
-
-  assertDataType(ConfigSchema, config);
-
-  return config;
+  return JSON.parse(fileData);
 }
 
 async function parseJsConfig(filePath: string, context: ConfigContext) {
   const getConfig = await evalJsConfigFile(filePath);
-  const config = getConfig(context);
+  return getConfig(context);
+}
 
-  assertDataType(ConfigSchema, config);
+/**
+ * Evaluates the TypeScript config after compiling it with esbuild.
+ * Source maps are enabled meanwhile, so that the stack of an error
+ * thrown by the config points to the TypeScript sources.
+ */
+async function parseTsConfig(filePath: string, context: ConfigContext) {
+  const outfile = await transpileTsConfig(filePath);
+  const sourceMapsEnabled = process.sourceMapsEnabled;
 
-  return config;
+  process.setSourceMapsEnabled(true);
+
+  try {
+    return await parseJsConfig(outfile, context);
+  } catch (e) {
+    // the stack is formatted when first accessed, it has to happen
+    // before the source maps are disabled again
+    if (e instanceof Error) void e.stack;
+    throw e;
+  } finally {
+    process.setSourceMapsEnabled(sourceMapsEnabled);
+    await removeTranspiledConfig(outfile);
+  }
 }
 
-export function parseConfig(filePath: string, context: ConfigContext) {
+function loadConfigFile(filePath: string, context: ConfigContext) {
   const p = path.parse(filePath);
 
   if (p.ext === ".json") {
     return parseJsonConfig(filePath);
   } else if ([".ts", ".cts", ".mts"].includes(p.ext)) {
-    // @ts-expect-error
-    if (process[Symbol.for("ts-node.register.instance")] == null) {
-      throw new Error(
-        "Invalid config file: To use TypeScript for the config file ts-node package must be installed.",
-      );
-    }
-    return parseJsConfig(filePath, context);
+    return parseTsConfig(filePath, context);
   } else if ([".js", ".cjs", ".mjs"].includes(p.ext)) {
     return parseJsConfig(filePath, context);
   } else {
     throw new Error(`Unsupported config file type: '${p.ext}'.`);
   }
 }
+
+/**
+ * Resolves the `extends` option, either a path relative to the
+ * config, or the name of a package.
+ */
+function resolveBaseConfigPath(base: string, configDir: string) {
+  if (base.startsWith(".") || path.isAbsolute(base)) {
+    return path.resolve(configDir, base);
+  }
+
+  try {
+    return createRequire(path.join(configDir, "noop.js")).resolve(base);
+  } catch {
+    throw new Error(
+      `Invalid config file: The base config '${base}' could not be found.`,
+    );
+  }
+}
+
+/**
+ * Merges the config with the configs it extends, and with the
+ * overrides of the current mode. The base configs are resolved the
+ * same way, before the config is merged into them.
+ */
+export async function resolveConfig(
+  config: unknown,
+  context: ConfigContext,
+  configDir: string,
+  /** Paths of the configs being resolved, to detect cycles. */
+  chain: string[] = [],
+): Promise<Record<string, unknown>> {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error("Invalid config file: The config must be an object.");
+  }
+
+  const { extends: base, modes, ...options } = config as ConfigFile;
+
+  if (base !== undefined && typeof base !== "string") {
+    throw new Error(
+      "Invalid config file: The 'extends' option must be a string.",
+    );
+  }
+
+  let resolved: Record<string, unknown> = options;
+
+  if (base) {
+    const basePath = resolveBaseConfigPath(base, configDir);
+
+    if (chain.includes(basePath)) {
+      throw new Error(
+        `Invalid config file: Circular 'extends' in ${
+          [...chain, basePath].join(" -> ")
+        }.`,
+      );
+    }
+
+    const baseConfig = await resolveConfig(
+      await loadConfigFile(basePath, context),
+      context,
+      path.dirname(basePath),
+      [...chain, basePath],
+    );
+
+    resolved = deepMerge(baseConfig, options);
+  }
+
+  const overrides = modes?.[context.mode];
+
+  if (overrides) {
+    resolved = deepMerge(resolved, overrides);
+  }
+
+  return resolved;
+}
+
+export async function parseConfig(
+  filePath: string,
+  context: ConfigContext,
+): Promise<Config> {
+  const config = await resolveConfig(
+    await loadConfigFile(filePath, context),
+    context,
+    path.dirname(filePath),
+    [filePath],
+  );
+
+  validateConfig(config);
+
+  return config;
+}
@@ -0,0 +1,74 @@
+import esbuild from "esbuild";
+import fs from "fs/promises";
+import path from "path";
+import {
+  assertConfigFormat,
+  configModuleFormat,
+} from "./eval-js-config/eval-js-config";
+
+const isBuildFailure = (e: unknown): e is esbuild.BuildFailure =>
+  e instanceof Error && "errors" in e && Array.isArray(e.errors);
+
+/**
+ * Bundles the TypeScript config file, along with the local modules it
+ * imports, into a single js module next to it, so that the packages
+ * it imports are resolved from the project. The module has an inline
+ * source map, errors thrown by it point to the TypeScript sources.
+ *
+ * Returns the path of the created module, it should be removed once
+ * the config is evaluated.
+ */
+export async function transpileTsConfig(filePath: string) {
+  // the `.mts` and `.cts` configs are compiled to the format of the
+  // current mode, which could change the meaning of their code
+  assertConfigFormat(filePath);
+
+  const p = path.parse(filePath);
+  const ext = configModuleFormat === "esm" ? ".mjs" : ".cjs";
+  const suffix = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const outfile = path.join(p.dir, `${p.base}.timestamp-${suffix}${ext}`);
+
+  let result: esbuild.BuildResult;
+
+  try {
+    result = await esbuild.build({
+      entryPoints: [filePath],
+      outfile,
+      bundle: true,
+      packages: "external",
+      platform: "node",
+      format: configModuleFormat,
+      target: `node${process.versions.node}`,
+      sourcemap: "inline",
+      logLevel: "silent",
+    });
+  } catch (e) {
+    if (!isBuildFailure(e)) throw e;
+
+    const messages = await esbuild.formatMessages(e.errors, {
+      kind: "error",
+      color: false,
+    });
+    throw new Error(
+      `Invalid config file: The config could not be compiled.\n\n${
+        messages.join("").trimEnd()
+      }`,
+    );
+  }
+
+  if (result.warnings.length > 0) {
+    const messages = await esbuild.formatMessages(result.warnings, {
+      kind: "warning",
+      color: process.stderr.isTTY,
+    });
+    process.stderr.write(messages.join(""));
+  }
+
+  return outfile;
+}
+
+/**
+ * Removes the module created by `transpileTsConfig`.
+ */
+export const removeTranspiledConfig = (outfile: string) =>
+  fs.rm(outfile, { force: true });
@@ -0,0 +1,191 @@
+import { assertDataType, getMetadata, ValidationError } from "dilswer";
+import type {
+  AnyDataType,
+  FieldDescriptor,
+} from "dilswer/dist/types/data-types/types";
+import { findClosest } from "../utils/find-closest";
+import { ConfigSchema } from "./config-schema";
+import type { Config } from "./config-type";
+
+const MAX_RECEIVED_LENGTH = 80;
+
+/**
+ * The config is invalid, the message describes what's wrong with it.
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    message: string,
+    /** Path of the invalid property, e.g. `giVersions.Gtk`. */
+    readonly fieldPath: string,
+  ) {
+    super(message);
+    this.name = "ConfigValidationError";
+  }
+}
+
+const isDataType = (
+  value: FieldDescriptor | AnyDataType,
+): value is AnyDataType => "kind" in value;
+
+const getFieldType = (field: FieldDescriptor | AnyDataType) =>
+  isDataType(field) ? field : field.type;
+
+/**
+ * Returns the data type of the property at the given path, or of
+ * its closest ancestor that the path could be followed to.
+ */
+const getTypeAtPath = (schema: AnyDataType, fieldPath: string[]) => {
+  let type = schema;
+
+  for (const part of fieldPath) {
+    let next: FieldDescriptor | AnyDataType | undefined;
+
+    if (type.kind === "record") {
+      next = type.recordOf[part];
+    } else if (type.kind === "array" && type.arrayOf.length === 1) {
+      next = type.arrayOf[0];
+    } else if (type.kind === "dictionary" && type.dict.length === 1) {
+      next = type.dict[0];
+    }
+
+    if (!next) break;
+    type = getFieldType(next);
+  }
+
+  return type;
+};
+
+const describeType = (type: AnyDataType | string): string => {
+  if (typeof type === "string") return type;
+
+  const metadata = getMetadata<{ typeDef?: string }>(type);
+
+  switch (type.kind) {
+    case "simple":
+      return type.simpleType;
+    case "literal":
+      return JSON.stringify(type.literal);
+    case "union":
+      return type.oneOf.map(describeType).join(" | ");
+    case "array":
+      return `array of ${type.arrayOf.map(describeType).join(" | ")}`;
+    case "dictionary":
+      return `object of ${type.dict.map(describeType).join(" | ")}`;
+    case "instanceOf":
+      return type.instanceOf.name;
+    case "custom":
+      return metadata.extra?.typeDef ?? metadata.title ?? "custom value";
+    default:
+      return metadata.title ?? "object";
+  }
+};
+
+const stringifyValue = (value: unknown) => {
+  if (typeof value === "function") return "[Function]";
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    // circular structures and bigints
+    return String(value);
+  }
+};
+
+const describeValue = (value: unknown) => {
+  const text = stringifyValue(value);
+  return text.length > MAX_RECEIVED_LENGTH
+    ? `${text.slice(0, MAX_RECEIVED_LENGTH - 3)}...`
+    : text;
+};
+
+const parseFieldPath = (fieldPath: string) =>
+  fieldPath.match(/[^$.[\]]+/g) ?? [];
+
+const formatFieldPath = (parts: string[]) =>
+  parts.map((p, i) => /^\d+$/.test(p) ? `[${p}]` : i > 0 ? `.${p}` : p)
+    .join("");
+
+const toConfigValidationError = (e: ValidationError) => {
+  const parts = parseFieldPath(e.fieldPath);
+  const fieldPath = formatFieldPath(parts);
+  const expected = describeType(e.expectedValueType);
+  const { description } = getMetadata(getTypeAtPath(ConfigSchema, parts));
+
+  const lines = e.receivedValue === undefined
+    ? [`Config property '${fieldPath}' is required.`]
+    : [`Config property '${fieldPath}' is invalid.`];
+
+  lines.push(`  Expected: ${expected}`);
+  if (e.receivedValue !== undefined) {
+    lines.push(`  Received: ${describeValue(e.receivedValue)}`);
+  }
+  if (description) {
+    lines.push("", ...description.split("\n").map((l) => `  ${l}`));
+  }
+
+  return new ConfigValidationError(lines.join("\n"), fieldPath);
+};
+
+/**
+ * Returns a warning for each property of the config that is not in
+ * the schema, most likely a typo.
+ */
+const findUnknownKeys = (
+  value: unknown,
+  type: AnyDataType,
+  fieldPath: string[] = [],
+): string[] => {
+  if (typeof value !== "object" || value === null) return [];
+
+  if (type.kind === "record" && !Array.isArray(value)) {
+    const known = Object.keys(type.recordOf);
+
+    return Object.entries(value).flatMap(([key, child]) => {
+      const field = type.recordOf[key];
+      const childPath = [...fieldPath, key];
+
+      if (field) {
+        return findUnknownKeys(child, getFieldType(field), childPath);
+      }
+
+      const suggestion = findClosest(key, known);
+      return [
+        `Unknown config property '${formatFieldPath(childPath)}'.${
+          suggestion ? ` Did you mean '${suggestion}'?` : ""
+        }`,
+      ];
+    });
+  }
+
+  if (type.kind === "array" && type.arrayOf.length === 1) {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap((item, i) =>
+      findUnknownKeys(item, type.arrayOf[0]!, [...fieldPath, String(i)])
+    );
+  }
+
+  if (type.kind === "dictionary" && type.dict.length === 1) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      findUnknownKeys(child, type.dict[0]!, [...fieldPath, key])
+    );
+  }
+
+  return [];
+};
+
+/**
+ * Validates the config against the `ConfigSchema`. Throws a
+ * `ConfigValidationError` describing the first invalid property.
+ */
+export function validateConfig(config: unknown): asserts config is Config {
+  try {
+    assertDataType(ConfigSchema, config);
+  } catch (e) {
+    if (ValidationError.isValidationError(e)) {
+      throw toConfigValidationError(e);
+    }
+    throw e;
+  }
+}
+
+export const getConfigWarnings = (config: unknown) =>
+  findUnknownKeys(config, ConfigSchema);
@@ -0,0 +1,59 @@
+import type esbuild from "esbuild";
+import path from "path";
+import type { BuildOutput } from "../../builder/builder-events";
+import type { Program } from "../../programs/base";
+
+const getBuildOutput = (
+  program: Program,
+  result: esbuild.BuildResult,
+  absWorkingDir: string,
+): BuildOutput => ({
+  outputFiles: Object.keys(result.metafile?.outputs ?? {}).map((outPath) =>
+    path.resolve(absWorkingDir, outPath)
+  ),
+  metafile: result.metafile,
+  warnings: result.warnings,
+  errors: result.errors,
+  resources: program.resources?.getAll().map((resource) => ({
+    filePath: resource.fullPath,
+    uri: resource.resourceString,
+  })) ?? [],
+});
+
+/**
+ * Emits the `buildStart`, `buildEnd` and `rebuild` events of the
+ * program, it's the last plugin so that the output of all the other
+ * plugins is included.
+ */
+export const buildEventsPlugin = (program: Program) => {
+  let isRebuild = false;
+  let startedAt = 0;
+
+  return {
+    name: "react-gtk-build-events-esbuild-plugin",
+    setup(build: esbuild.PluginBuild) {
+      const absWorkingDir = build.initialOptions.absWorkingDir ?? program.cwd;
+
+      build.onStart(() => {
+        startedAt = performance.now();
+        program.events.emit("buildStart", { isRebuild });
+      });
+
+      build.onEnd((result) => {
+        const event = {
+          isRebuild,
+          duration: performance.now() - startedAt,
+          output: getBuildOutput(program, result, absWorkingDir),
+        };
+
+        program.events.emit("buildEnd", event);
+        if (isRebuild) {
+          program.events.emit("rebuild", event);
+        }
+
+        // the context builds again only in watch mode
+        isRebuild = true;
+      });
+    },
+  };
+};
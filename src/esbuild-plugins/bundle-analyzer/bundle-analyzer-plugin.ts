@@ -0,0 +1,74 @@
+import type esbuild from "esbuild";
+import fs from "fs/promises";
+import path from "path";
+import { html, Output } from "termx-markup";
+import type { Program } from "../../programs/base";
+import { analyzeMetafile } from "../../utils/analyze-metafile";
+import { getGlobalPolyfillsInmportPaths } from "../../utils/get-polyfills";
+import { getReportHtml } from "./report-html";
+
+const REPORT_NAME = "bundle-analysis";
+
+const formatKiB = (bytes: number) => `${(bytes / 1024).toFixed(1)} KiB`;
+
+/**
+ * Writes a JSON and a HTML report of the bundle contents to the
+ * output directory after each build.
+ */
+export const bundleAnalyzerPlugin = (program: Program) => {
+  return {
+    name: "react-gtk-bundle-analyzer-esbuild-plugin",
+    setup(build: esbuild.PluginBuild) {
+      build.onEnd(async (result) => {
+        if (!result.metafile || result.errors.length > 0) return;
+
+        const report = analyzeMetafile({
+          metafile: result.metafile,
+          outfile: build.initialOptions.outfile!,
+          workingDir: build.initialOptions.absWorkingDir ?? process.cwd(),
+          polyfills: getGlobalPolyfillsInmportPaths(program),
+        });
+
+        const reportDir = path.resolve(program.cwd, program.config.outDir);
+        const jsonPath = path.resolve(reportDir, `${REPORT_NAME}.json`);
+        const htmlPath = path.resolve(reportDir, `${REPORT_NAME}.html`);
+
+        await fs.mkdir(reportDir, { recursive: true });
+        await fs.writeFile(jsonPath, JSON.stringify(report, null, 2));
+        await fs.writeFile(htmlPath, getReportHtml(report));
+
+        Output.print(html`
+          <span>
+            <span color="lightBlue">Bundle size:</span>
+            ${formatKiB(report.totalBytes)}
+          </span>
+        `);
+
+        for (const pkg of report.packages.slice(0, 5)) {
+          Output.print(html`
+            <pre>  ${pkg.name}: ${formatKiB(pkg.bytes)}</pre>
+          `);
+        }
+
+        for (const dup of report.duplicates) {
+          Output.print(html`
+            <span>
+              <span color="yellow">WARN:</span>
+              <span>
+                Package ${dup.name} is included in multiple versions:
+                ${dup.instances.map((i) => i.version).join(", ")}
+              </span>
+            </span>
+          `);
+        }
+
+        Output.print(html`
+          <span>
+            Bundle analysis written to
+            ${path.relative(program.cwd, htmlPath)}
+          </span>
+        `);
+      });
+    },
+  };
+};
@@ -0,0 +1,180 @@
+import type { BundleReport } from "../../utils/analyze-metafile";
+import { escapeXml } from "../../utils/escape-xml";
+import { formatBytes } from "../../utils/format-bytes";
+
+const getTable = (headers: string[], rows: string[][]) =>
+  /* html */ `
+<table>
+  <thead><tr>${headers.map((h) => `<th>${h}</th>`).join("")}</tr></thead>
+  <tbody>
+${
+    rows
+      .map((row) =>
+        `    <tr>${
+          row.map((cell) => `<td>${escapeXml(cell)}</td>`).join("")
+        }</tr>`
+      )
+      .join("\n")
+  }
+  </tbody>
+</table>`.trim();
+
+/**
+ * Renders the report as a self-contained HTML page, with a treemap
+ * of the bundle contents grouped by package.
+ */
+export const getReportHtml = (report: BundleReport) => {
+  const tree = report.packages.map((pkg) => ({
+    name: pkg.name,
+    bytes: pkg.bytes,
+    children: report.modules
+      .filter((m) => m.package === pkg.name && m.bytes > 0)
+      .map((m) => ({ name: m.path, bytes: m.bytes })),
+  }));
+
+  const sections: string[] = [
+    /* html */ `<h2>Packages</h2>\n${
+      getTable(
+        ["Package", "Versions", "Modules", "Size"],
+        report.packages.map((pkg) => [
+          pkg.name,
+          pkg.versions.join(", "),
+          String(pkg.modules),
+          formatBytes(pkg.bytes),
+        ]),
+      )
+    }`,
+  ];
+
+  if (report.duplicates.length > 0) {
+    sections.push(
+      /* html */ `<h2>Duplicate packages</h2>\n${
+        getTable(
+          ["Package", "Version", "Path", "Size"],
+          report.duplicates.flatMap((dup) =>
+            dup.instances.map((instance) => [
+              dup.name,
+              instance.version,
+              instance.path,
+              formatBytes(instance.bytes),
+            ])
+          ),
+        )
+      }`,
+    );
+  }
+
+  if (report.polyfills.length > 0) {
+    sections.push(
+      /* html */ `<h2>Polyfills</h2>\n${
+        getTable(
+          ["Polyfill", "Size"],
+          report.polyfills.map((p) => [p.name, formatBytes(p.bytes)]),
+        )
+      }`,
+    );
+  }
+
+  return /* html */ `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Bundle analysis - ${escapeXml(report.outfile)}</title>
+<style>
+  body { font-family: sans-serif; margin: 1em 2em; color: #222; }
+  #treemap { position: relative; width: 100%; height: 70vh; }
+  .node {
+    position: absolute; box-sizing: border-box; overflow: hidden;
+    border: 1px solid #fff; font-size: 11px; padding: 2px;
+  }
+  .pkg { border: 2px solid #333; }
+  .pkg > .label { font-weight: bold; font-size: 12px; }
+  table { border-collapse: collapse; margin-bottom: 1em; }
+  th, td { text-align: left; padding: 2px 12px 2px 0; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(report.outfile)} (${formatBytes(report.totalBytes)})</h1>
+<div id="treemap"></div>
+${sections.join("\n")}
+<script>
+const tree = ${JSON.stringify(tree).replace(/</g, "\\u003c")};
+
+function formatBytes(b) {
+  if (b < 1024) return b + " B";
+  if (b < 1048576) return (b / 1024).toFixed(1) + " KiB";
+  return (b / 1048576).toFixed(2) + " MiB";
+}
+
+function worst(row, side, scale) {
+  const sum = row.reduce((s, n) => s + n.bytes * scale, 0);
+  let max = 0;
+  for (const n of row) {
+    const a = n.bytes * scale;
+    max = Math.max(max, (side * side * a) / (sum * sum), (sum * sum) / (side * side * a));
+  }
+  return max;
+}
+
+// squarified treemap layout
+function layout(nodes, x, y, w, h) {
+  const total = nodes.reduce((s, n) => s + n.bytes, 0);
+  const result = [];
+  if (total === 0) return result;
+  const scale = (w * h) / total;
+  let rest = nodes.slice().sort((a, b) => b.bytes - a.bytes);
+  while (rest.length > 0) {
+    const side = Math.min(w, h);
+    const row = [rest[0]];
+    let i = 1;
+    while (i < rest.length && worst(row.concat(rest[i]), side, scale) <= worst(row, side, scale)) {
+      row.push(rest[i++]);
+    }
+    rest = rest.slice(i);
+    const rowArea = row.reduce((s, n) => s + n.bytes * scale, 0);
+    const thickness = rowArea / side;
+    let offset = 0;
+    for (const n of row) {
+      const len = (n.bytes * scale) / thickness;
+      if (w >= h) result.push({ node: n, x, y: y + offset, w: thickness, h: len });
+      else result.push({ node: n, x: x + offset, y, w: len, h: thickness });
+      offset += len;
+    }
+    if (w >= h) { x += thickness; w -= thickness; } else { y += thickness; h -= thickness; }
+  }
+  return result;
+}
+
+function render() {
+  const root = document.getElementById("treemap");
+  root.innerHTML = "";
+  const colors = ["#8dd3c7", "#ffffb3", "#bebada", "#fb8072", "#80b1d3", "#fdb462", "#b3de69", "#fccde5", "#d9d9d9", "#bc80bd"];
+  layout(tree, 0, 0, root.clientWidth, root.clientHeight).forEach((pkg, idx) => {
+    const el = document.createElement("div");
+    el.className = "node pkg";
+    Object.assign(el.style, { left: pkg.x + "px", top: pkg.y + "px", width: pkg.w + "px", height: pkg.h + "px", background: colors[idx % colors.length] });
+    el.title = pkg.node.name + " - " + formatBytes(pkg.node.bytes);
+    const label = document.createElement("div");
+    label.className = "label";
+    label.textContent = pkg.node.name + " (" + formatBytes(pkg.node.bytes) + ")";
+    el.appendChild(label);
+    root.appendChild(el);
+    layout(pkg.node.children, pkg.x + 2, pkg.y + 18, Math.max(pkg.w - 4, 0), Math.max(pkg.h - 20, 0)).forEach((mod) => {
+      const m = document.createElement("div");
+      m.className = "node";
+      Object.assign(m.style, { left: mod.x + "px", top: mod.y + "px", width: mod.w + "px", height: mod.h + "px", background: "rgba(255,255,255,0.35)" });
+      m.title = mod.node.name + " - " + formatBytes(mod.node.bytes);
+      m.textContent = mod.node.name.split("/").pop();
+      root.appendChild(m);
+    });
+  });
+}
+
+render();
+window.addEventListener("resize", render);
+</script>
+</body>
+</html>
+`.trimStart();
+};
@@ -0,0 +1,42 @@
+import net from "net";
+
+export type HotUpdateResponse =
+  | { type: "updated" }
+  | { type: "restart"; reason: string };
+
+const UPDATE_TIMEOUT = 5000;
+
+/**
+ * Sends the new version of the bundle to the hot reload runtime of
+ * the running app, and waits for it to be applied.
+ */
+export const sendHotUpdate = (
+  socketPath: string,
+  message: { bundle: string; changedModules: string[] },
+) =>
+  new Promise<HotUpdateResponse>((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    let response = "";
+
+    socket.setTimeout(UPDATE_TIMEOUT, () => {
+      socket.destroy(new Error("Timed out waiting for the app to update."));
+    });
+
+    socket.on("connect", () => {
+      socket.write(JSON.stringify({ type: "update", ...message }) + "\n");
+    });
+
+    socket.on("data", (data) => {
+      response += data.toString();
+    });
+
+    socket.on("error", reject);
+
+    socket.on("close", () => {
+      try {
+        resolve(JSON.parse(response));
+      } catch {
+        reject(new Error("Invalid response from the app."));
+      }
+    });
+  });
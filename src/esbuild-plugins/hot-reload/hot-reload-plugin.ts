@@ -0,0 +1,209 @@
+import { createHash } from "crypto";
+import type esbuild from "esbuild";
+import fs from "fs/promises";
+import path from "path";
+import type { Program } from "../../programs/base";
+
+const HOT_SHARED_NS = "hot-shared";
+
+const SOURCE_FILE_REGEX = /\.(m?js|jsx|ts|tsx)$/;
+
+const COMMONJS_REGEX = /\bmodule\.exports\b|\bexports\.[\w$]+\s*=/;
+
+const COMPONENT_DECLARATION_REGEX =
+  /^(?:export\s+(?:default\s+)?)?(?:(?:async\s+)?function\s*\*?\s*|(?:const|let|var)\s+)([A-Z][\w$]*)/gm;
+
+export type HotUpdate = {
+  /** IDs of the changed source modules. */
+  changedModules: string[];
+  /**
+   * Changed files that are not source modules (stylesheets,
+   * images, etc.), these can't be hot-swapped.
+   */
+  changedAssets: string[];
+};
+
+/**
+ * Returns the ID under which the module is registered in the hot
+ * reload runtime, it's the same between builds.
+ */
+const getModuleID = (program: Program, filePath: string) =>
+  path.relative(program.cwd, filePath).split(path.sep).join("/");
+
+const isSourceModule = (filePath: string) =>
+  SOURCE_FILE_REGEX.test(filePath)
+  && !filePath.endsWith(".d.ts")
+  && !filePath.split(path.sep).includes("node_modules");
+
+const getLoader = (filePath: string): esbuild.Loader => {
+  const ext = path.extname(filePath);
+  switch (ext) {
+    case ".ts":
+      return "ts";
+    case ".tsx":
+      return "tsx";
+    case ".jsx":
+      return "jsx";
+    default:
+      return "js";
+  }
+};
+
+/**
+ * Finds the top-level declarations that might be React components,
+ * the ones that are not exported must be registered explicitly to
+ * be refreshed.
+ */
+const findComponentNames = (contents: string) => {
+  const names = new Set<string>();
+  for (const match of contents.matchAll(COMPONENT_DECLARATION_REGEX)) {
+    names.add(match[1]!);
+  }
+  return [...names];
+};
+
+/**
+ * Prepares the bundle for hot updates:
+ *
+ * - source modules of the project are registered in the hot reload
+ *   runtime along with their exports and components, each time the
+ *   bundle is evaluated,
+ * - everything else (dependencies, stylesheets, assets) is evaluated
+ *   only once, and the next versions of the bundle reuse the same
+ *   instances. This way there is only ever one React, one renderer
+ *   and the runtime and polyfills are not initialized twice.
+ *
+ * After each build the `onUpdate` callback receives the list of
+ * the project files that changed since the previous build.
+ */
+export const hotReloadPlugin = (
+  program: Program,
+  onUpdate: (update: HotUpdate) => void,
+) => {
+  let fileHashes = new Map<string, string>();
+
+  return {
+    name: "react-gtk-hot-reload-esbuild-plugin",
+    setup(build: esbuild.PluginBuild) {
+      const absWorkingDir = build.initialOptions.absWorkingDir ?? program.cwd;
+
+      build.onResolve({ filter: /.*/ }, async (args) => {
+        if (args.pluginData?.hotShared) return;
+        if (args.kind === "entry-point") return;
+
+        // imports made by modules generated by other plugins are
+        // treated the same as the ones made by the source modules
+        const isImportedFromSource = args.importer === "<stdin>"
+          || (args.namespace === "file"
+            ? isSourceModule(args.importer)
+            : args.namespace !== HOT_SHARED_NS);
+
+        if (!isImportedFromSource) return;
+
+        const result = await build.resolve(args.path, {
+          kind: args.kind,
+          importer: args.importer,
+          namespace: args.namespace,
+          resolveDir: args.resolveDir,
+          pluginData: { ...args.pluginData, hotShared: true },
+        });
+
+        if (
+          result.errors.length > 0
+          || result.external
+          || result.namespace !== "file"
+          || isSourceModule(result.path)
+        ) {
+          return result;
+        }
+
+        // the loaded wrapper is a CommonJS module, the `.cjs` extension
+        // prevents esbuild from treating it as an ES module when the
+        // original file is one
+        return {
+          path: `${result.path}.cjs`,
+          namespace: HOT_SHARED_NS,
+          sideEffects: result.sideEffects,
+          pluginData: { filePath: result.path },
+        };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: HOT_SHARED_NS }, (args) => {
+        const filePath: string = args.pluginData.filePath;
+        const key = JSON.stringify(getModuleID(program, filePath));
+
+        return {
+          contents: /* js */ `
+            const shared = globalThis.__react_gtk_shared_modules__ ??= new Map();
+            if (!shared.has(${key})) {
+              const m = require(${JSON.stringify(filePath)});
+              shared.set(${key}, m);
+              globalThis.__react_gtk_hot__?.onModuleShared(m);
+            }
+            module.exports = shared.get(${key});
+          `,
+          loader: "js",
+          resolveDir: path.dirname(filePath),
+        };
+      });
+
+      build.onLoad({ filter: SOURCE_FILE_REGEX }, async (args) => {
+        if (args.namespace !== "file" || !isSourceModule(args.path)) return;
+
+        const contents = await fs.readFile(args.path, "utf-8");
+
+        // appending an import would turn a CommonJS module into an ES
+        // module, these are left as is and always cause a restart
+        if (COMMONJS_REGEX.test(contents)) return;
+
+        const id = JSON.stringify(getModuleID(program, args.path));
+        const components = findComponentNames(contents)
+          .map((name) =>
+            `${name}: typeof ${name} !== "undefined" ? ${name} : undefined`
+          )
+          .join(", ");
+
+        return {
+          contents: contents
+            + "\n\n"
+            + `import * as __hot_exports__ from ${JSON.stringify(args.path)};\n`
+            + `globalThis.__react_gtk_hot__?.registerModule(${id}, __hot_exports__, { ${components} });\n`,
+          loader: getLoader(args.path),
+        };
+      });
+
+      build.onEnd(async (result) => {
+        if (result.errors.length > 0 || !result.metafile) return;
+
+        const nextHashes = new Map<string, string>();
+        const update: HotUpdate = { changedModules: [], changedAssets: [] };
+
+        for (const input of Object.keys(result.metafile.inputs)) {
+          // inputs from other namespaces are prefixed with its name
+          if (/^[\w-]+:/.test(input)) continue;
+
+          const filePath = path.resolve(absWorkingDir, input);
+
+          if (filePath.split(path.sep).includes("node_modules")) continue;
+
+          const contents = await fs.readFile(filePath).catch(() => undefined);
+          if (!contents) continue;
+
+          const hash = createHash("sha256").update(contents).digest("hex");
+          nextHashes.set(filePath, hash);
+
+          if (fileHashes.get(filePath) !== hash) {
+            if (isSourceModule(filePath)) {
+              update.changedModules.push(getModuleID(program, filePath));
+            } else {
+              update.changedAssets.push(getModuleID(program, filePath));
+            }
+          }
+        }
+
+        fileHashes = nextHashes;
+        onUpdate(update);
+      });
+    },
+  };
+};
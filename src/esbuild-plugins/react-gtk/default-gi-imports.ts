@@ -1,5 +1,6 @@
 import { html, Output } from "termx-markup";
 import type { Config } from "../../config/config-type";
+import { compareStrings } from "../../utils/compare-strings";
 
 class GiImport {
   version?: string;
@@ -19,12 +20,20 @@ class GiImport {
   }
 }
 
+/**
+ * Versions of the GI libraries used when not specified in the config.
+ */
+export const DEFAULT_GI_VERSIONS = {
+  Gtk: "3.0",
+  Soup: "2.4",
+} as const;
+
 export class GiImports {
   imports: Map<string, GiImport> = new Map();
 
   constructor(private versions: Exclude<Config["giVersions"], undefined> = {}) {
-    versions.Gtk ??= "3.0";
-    versions.Soup ??= "2.4";
+    versions.Gtk ??= DEFAULT_GI_VERSIONS.Gtk;
+    versions.Soup ??= DEFAULT_GI_VERSIONS.Soup;
   }
 
   private printVersionConflict(name: string, v1: string, v2: string) {
@@ -67,7 +76,20 @@ export class GiImports {
     this.imports.set(name, giImport);
   }
 
+  /**
+   * Returns the names of all the imported libraries and their
+   * versions, sorted by name.
+   */
+  getImported(): Array<[name: string, version: string | undefined]> {
+    return [...this.imports.entries()]
+      .map(([name, im]): [string, string | undefined] => [name, im.version])
+      .sort(([a], [b]) => compareStrings(a, b));
+  }
+
   toJavaScript() {
-    return [...this.imports.values()].map((i) => i.get()).join("\n");
+    return [...this.imports.entries()]
+      .sort(([a], [b]) => compareStrings(a, b))
+      .map(([, i]) => i.get())
+      .join("\n");
   }
 }
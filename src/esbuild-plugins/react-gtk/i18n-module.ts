@@ -0,0 +1,30 @@
+/**
+ * Generates the contents of the `gapp:i18n` module.
+ */
+export const getI18nModule = (appID: string) =>
+  /* js */ `
+import Gettext from "gettext";
+
+export const domain = ${JSON.stringify(appID)};
+
+// The locale dir is only known when the app was started through the
+// generated launcher, otherwise the system default is used
+const localedir = imports.package.localedir;
+
+if (localedir) {
+  Gettext.bindtextdomain(domain, localedir);
+}
+Gettext.textdomain(domain);
+
+export function _(msgid) {
+  return Gettext.dgettext(domain, msgid);
+}
+
+export function ngettext(msgid, msgidPlural, n) {
+  return Gettext.dngettext(domain, msgid, msgidPlural, n);
+}
+
+export function pgettext(context, msgid) {
+  return Gettext.dpgettext(domain, context, msgid);
+}
+`.trim();
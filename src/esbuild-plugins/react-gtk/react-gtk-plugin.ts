@@ -1,17 +1,25 @@
+import { createHash } from "crypto";
 import type esbuild from "esbuild";
 import fs from "fs/promises";
 import path from "path";
 import type { Program } from "../../programs/base";
-import { generateUniqueName } from "../../utils/generate-unique-name";
+import { compareStrings } from "../../utils/compare-strings";
 import { leftPad } from "../../utils/left-pad";
+import { writeIfChanged } from "../../utils/write-if-changed";
 import { GiImports } from "./default-gi-imports";
+import { getI18nModule } from "./i18n-module";
+import {
+  getSettingsModule,
+  getSettingsTypeDeclarations,
+} from "./settings-module";
 
 class ExternalImport {
   importName: string;
 
   constructor(public path: string) {
+    // derived from the path, so that the name is the same across builds
     this.importName = "_" + path.replace(/[^a-zA-Z]/g, "") + "_"
-      + generateUniqueName(8);
+      + createHash("sha256").update(path).digest("hex").slice(0, 8);
   }
 
   toImportStatement() {
@@ -38,7 +46,8 @@ export const reactGtkPlugin = (
   return {
     name: "react-gtk-esbuild-plugin",
     setup(build: esbuild.PluginBuild) {
-      const gi = new GiImports(program.config.giVersions);
+      const gi = program.giImports
+        ?? new GiImports(program.config.giVersions);
       const externalImports: ExternalImport[] = [];
 
       for (const [name, version] of options?.giRequirements ?? []) {
@@ -63,16 +72,63 @@ export const reactGtkPlugin = (
         );
 
         if (program.type === "start") {
+          // In watch mode the stylesheets are watched by the live CSS
+          // runtime, moving them out of the file namespace keeps
+          // esbuild from rebuilding the app when they change
+          const liveCss = program.watchMode;
+
+          if (liveCss) {
+            build.onResolve({ filter: /\.css$/i }, async (args) => {
+              if (args.pluginData?.liveCss) return;
+
+              const result = await build.resolve(args.path, {
+                kind: args.kind,
+                importer: args.importer,
+                namespace: args.namespace,
+                resolveDir: args.resolveDir,
+                pluginData: { ...args.pluginData, liveCss: true },
+              });
+
+              if (result.errors.length > 0 || result.namespace !== "file") {
+                return result;
+              }
+
+              return {
+                path: result.path,
+                namespace: "live-css",
+              };
+            });
+          }
+
           build.onLoad(
             {
               filter: /.*\.css$/i,
             },
             async (args) => {
               const resource = program.resources!.registerResource(args.path);
-              const content = await fs.readFile(
-                path.resolve(args.path),
-                "utf-8",
-              );
+              const filePath = path.resolve(args.path);
+
+              // The live CSS runtime reads the stylesheet from the disk,
+              // an app restarted without a rebuild gets its current version
+              if (liveCss) {
+                return {
+                  contents: /* js */ `
+                  import "@reactgjs/renderer"; // renderer mus be imported before styles are added
+
+                  const resource = ${JSON.stringify(resource.resourceString)};
+
+                  if(applicationCss) {
+                    __react_gtk_live_css__.load(${JSON.stringify(filePath)});
+                  }
+
+                  export default resource;
+                `,
+                  resolveDir: path.dirname(args.path),
+                };
+              }
+
+              const content = await fs.readFile(filePath, "utf-8");
+
               return {
                 contents: /* js */ `
                 import "@reactgjs/renderer"; // renderer mus be imported before styles are added
@@ -87,6 +143,7 @@ export const reactGtkPlugin = (
 
                 export default resource;
               `,
+                resolveDir: path.dirname(args.path),
               };
             },
           );
@@ -119,12 +176,12 @@ export const reactGtkPlugin = (
 
       build.onResolve(
         {
-          filter: /^gapp:(env)$/,
+          filter: /^gapp:(env|settings|i18n)$/,
         },
         (args) => {
           return {
             namespace: "gapp",
-            path: "env",
+            path: args.path.replace(/^gapp:/, ""),
           };
         },
       );
@@ -141,6 +198,49 @@ export const reactGtkPlugin = (
         },
       );
 
+      build.onLoad(
+        {
+          filter: /^settings$/,
+          namespace: "gapp",
+        },
+        () => {
+          return {
+            contents: getSettingsModule(
+              program.appID,
+              program.config.settings ?? {},
+            ),
+          };
+        },
+      );
+
+      build.onLoad(
+        {
+          filter: /^i18n$/,
+          namespace: "gapp",
+        },
+        () => {
+          return {
+            contents: getI18nModule(program.appID),
+          };
+        },
+      );
+
+      // the declarations are only needed while the project is being
+      // worked on, production builds (e.g. in CI) leave it untouched
+      if (
+        program.config.settings
+        && (program.isDev || program.type === "start")
+      ) {
+        const settings = program.config.settings;
+
+        build.onStart(async () => {
+          await writeIfChanged(
+            path.resolve(program.cwd, "gapp-settings.d.ts"),
+            getSettingsTypeDeclarations(settings),
+          );
+        });
+      }
+
       // #region gi imports
 
       build.onResolve({ filter: /^gi?:\/\// }, (args) => ({
@@ -199,7 +299,9 @@ export const reactGtkPlugin = (
 
         const imports = [
           gi.toJavaScript(),
-          ...externalImports.map((e) => e.toImportStatement()),
+          ...externalImports
+            .sort((a, b) => compareStrings(a.path, b.path))
+            .map((e) => e.toImportStatement()),
         ];
 
         const gtkInit = (program.config.giVersions?.Gtk as string) === "4.0"
@@ -0,0 +1,88 @@
+import type { SettingsConfig } from "../../utils/app-settings";
+import {
+  getSettingAccessors,
+  getSettingTsType,
+  settingKeyToProperty,
+} from "../../utils/app-settings";
+import { leftPad } from "../../utils/left-pad";
+
+/**
+ * Generates the contents of the `gapp:settings` module.
+ */
+export const getSettingsModule = (appID: string, settings: SettingsConfig) => {
+  const accessors = Object.entries(settings).map(([key, def]) => {
+    const [getter, setter] = getSettingAccessors(def);
+    return `${settingKeyToProperty(key)}: createAccessor(${
+      JSON.stringify(key)
+    }, "${getter}", "${setter}"),`;
+  });
+
+  return /* js */ `
+import Gio from "gi://Gio";
+
+export const schemaId = ${JSON.stringify(appID)};
+
+let gsettings;
+
+export function getGSettings() {
+  if (!gsettings) {
+    gsettings = new Gio.Settings({ schema_id: schemaId });
+  }
+  return gsettings;
+}
+
+function createAccessor(key, getter, setter) {
+  const accessor = {
+    get() {
+      return getGSettings()[getter](key);
+    },
+    set(value) {
+      getGSettings()[setter](key, value);
+    },
+    reset() {
+      getGSettings().reset(key);
+    },
+    onChanged(cb) {
+      const s = getGSettings();
+      const id = s.connect("changed::" + key, () => cb(accessor.get()));
+      return () => s.disconnect(id);
+    },
+    bind(object, property, flags = Gio.SettingsBindFlags.DEFAULT) {
+      getGSettings().bind(key, object, property, flags);
+      return () => Gio.Settings.unbind(object, property);
+    },
+  };
+  return Object.freeze(accessor);
+}
+
+export default Object.freeze({
+${leftPad(accessors.join("\n"), 2)}
+});
+`.trim();
+};
+
+/**
+ * Generates a type declaration file that augments the `gapp:settings`
+ * module with the types of the settings defined in the config.
+ */
+export const getSettingsTypeDeclarations = (settings: SettingsConfig) => {
+  const properties = Object.entries(settings).map(([key, def]) => {
+    const lines: string[] = [];
+    if (def.summary) {
+      lines.push(`/** ${def.summary.replace(/\*\//g, "* /")} */`);
+    }
+    lines.push(`${settingKeyToProperty(key)}: ${getSettingTsType(def)};`);
+    return lines.join("\n");
+  });
+
+  return /* ts */ `
+// This file is generated by react-gtk from the \`settings\` option
+// of the config file. Do not edit it manually.
+
+declare module "gapp:settings" {
+  interface SettingsSchema {
+${leftPad(properties.join("\n"), 4)}
+  }
+}
+`.trimStart();
+};
@@ -0,0 +1,76 @@
+/**
+ * Exits within this time after the start are counted as crashes on
+ * startup, after that many in a row the app is no longer restarted.
+ */
+const CRASH_LOOP_WINDOW = 5000;
+const CRASH_LOOP_LIMIT = 3;
+
+/**
+ * Delay before the second restart in a row, doubled on each next
+ * one up to the max. The first restart is immediate.
+ */
+const RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 30000;
+
+/**
+ * An app that ran for this long before crashing is restarted
+ * immediately again.
+ */
+const RESTART_DELAY_RESET = 60000;
+
+/**
+ * Keeps track of the crashes of the app between the builds, to
+ * decide when and whether it should be restarted.
+ */
+export class CrashTracker {
+  private fastCrashes = 0;
+  private restarts = 0;
+
+  /**
+   * Number of crashes in a row that happened right after the start.
+   */
+  get fastCrashCount() {
+    return this.fastCrashes;
+  }
+
+  /**
+   * The app keeps crashing on startup, restarting it won't help.
+   */
+  get isCrashLooping() {
+    return this.fastCrashes >= CRASH_LOOP_LIMIT;
+  }
+
+  /**
+   * Records a crash of the app that was running for `uptime`
+   * milliseconds.
+   */
+  recordCrash(uptime: number) {
+    this.fastCrashes = uptime < CRASH_LOOP_WINDOW ? this.fastCrashes + 1 : 1;
+
+    if (uptime >= RESTART_DELAY_RESET) {
+      this.restarts = 0;
+    }
+  }
+
+  /**
+   * Returns the time to wait before the next restart and counts
+   * that restart.
+   */
+  nextRestartDelay() {
+    const delay = this.restarts === 0
+      ? 0
+      : Math.min(RESTART_DELAY * 2 ** (this.restarts - 1), MAX_RESTART_DELAY);
+
+    this.restarts += 1;
+    return delay;
+  }
+
+  /**
+   * Called when the app is started after a build, the files changed
+   * and the app might no longer crash.
+   */
+  reset() {
+    this.fastCrashes = 0;
+    this.restarts = 0;
+  }
+}
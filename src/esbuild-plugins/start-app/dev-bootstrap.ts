@@ -0,0 +1,37 @@
+/**
+ * Entry file used by the dev runner of the `start` command. It does
+ * the same as the launcher script generated for meson, except that
+ * the resources are loaded from the given prefix and the bundle is
+ * imported directly from the build directory.
+ */
+export const getDevBootstrap = (params: {
+  appID: string;
+  version: string;
+  /** Directory with the `share/<app-id>/*.gresource` files. */
+  prefix: string;
+  /** Path to the bundle, relative to the bootstrap file. */
+  mainPath: string;
+}) =>
+  /* js */ `
+imports.package.init({
+    name: ${JSON.stringify(params.appID)},
+    version: ${JSON.stringify(params.version)},
+    prefix: ${JSON.stringify(params.prefix)},
+    libdir: ${JSON.stringify(`${params.prefix}/lib`)},
+});
+
+Object.assign(globalThis, {
+  MAIN_LOOP_NAME: "react-gtk-app:main-loop"
+});
+
+import(${JSON.stringify(params.mainPath)})
+  .then((main) => {
+    imports.package.run(main)
+  })
+  .catch(error => {
+    console.error(error);
+    imports.system.exit(1);
+  });
+
+imports.mainloop.run(MAIN_LOOP_NAME);
+`.trim();
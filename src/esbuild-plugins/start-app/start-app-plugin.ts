@@ -1,21 +1,81 @@
 import { spawn } from "child_process";
 import type esbuild from "esbuild";
+import { html, Output } from "termx-markup";
 import type { Program } from "../../programs/base";
 import { leftPad } from "../../utils/left-pad";
 import { OutputPipe } from "../../utils/output-pipe";
+import { quoteShellArg } from "../../utils/quote-shell-arg";
 import { sleep } from "../../utils/sleep";
+import { CrashTracker } from "./crash-tracker";
 
 const formatChildOutputLine = (line: string | Buffer) => {
   const content = leftPad(line.toString().trim(), 2);
   return `${content}\n`;
 };
 
+export type StartCommand = {
+  command: string;
+  args: string[];
+  /**
+   * The app reads from the terminal (e.g. a debugger prompt), its
+   * standard streams are connected directly to the terminal.
+   */
+  interactive?: boolean;
+};
+
+/**
+ * Exit code with which the app asks to be started again, used by
+ * the reload button of the error overlay.
+ */
+const RELOAD_EXIT_CODE = 75;
+
+const MESON_RUN_COMMAND: StartCommand = {
+  command: "meson",
+  args: ["compile", "-C", "_build", "run"],
+};
+
+/**
+ * Time to wait after a build before the app is restarted, if the
+ * next build starts in that time the restart is skipped.
+ */
+const RESTART_DEBOUNCE = 300;
+
+const describeExit = (code: number | null, signal: NodeJS.Signals | null) => {
+  if (signal) return `was terminated by ${signal}`;
+  return `exited with code ${code}`;
+};
+
 export const startAppPlugin = (params: {
   getCwd: () => string;
+  /** Called once, before the app is started for the first time. */
   beforeStart?: () => any;
+  /** Called before the app is started after each build. */
+  beforeEachStart?: () => any;
+  getEnv?: () => Record<string, string>;
+  /** Command starting the app, by default the meson `run` target. */
+  getCommand?: () => StartCommand;
+  /**
+   * Called after a rebuild while the app is running, if it resolves
+   * to `true` the app was updated in place and is not restarted.
+   */
+  tryHotUpdate?: (result: esbuild.BuildResult) => Promise<boolean>;
+  /**
+   * Start the app again when it crashes, in watch mode. Otherwise
+   * it's started again only after the next change.
+   */
+  restartOnCrash?: boolean;
   program: Program;
 }) => {
-  const { getCwd, program, beforeStart } = params;
+  const {
+    getCwd,
+    program,
+    beforeStart,
+    beforeEachStart,
+    getEnv,
+    tryHotUpdate,
+    restartOnCrash,
+  } = params;
+  const getCommand = params.getCommand ?? (() => MESON_RUN_COMMAND);
 
   const onFirstBuild = {
     async beforeStart() {
@@ -25,51 +85,183 @@ export const startAppPlugin = (params: {
   };
 
   let cleanup: () => any = () => {};
+  let isRunning = false;
+  const crashes = new CrashTracker();
+  let pendingRestart: NodeJS.Timeout | undefined;
+  let queue = Promise.resolve();
+
+  const dispose = async () => {
+    await program.esbuildCtx.cancel();
+    await program.esbuildCtx.dispose();
+  };
+
+  const spawnApp = () => {
+    const { command, args, interactive } = getCommand();
+    const startedAt = Date.now();
+
+    // spawn the bash process
+    const child = spawn(command, args.map(quoteShellArg), {
+      stdio: interactive ? "inherit" : ["ignore", "pipe", "pipe"],
+      shell: true,
+      cwd: getCwd(),
+      env: {
+        ...process.env,
+        ...getEnv?.(),
+        REACT_GTK_RELOAD_EXIT_CODE: String(RELOAD_EXIT_CODE),
+      },
+      // a process in a separate group can't read from the terminal
+      detached: !interactive,
+    });
+
+    const pipes = interactive ? [] : [
+      new OutputPipe(child.stdout!, process.stdout)
+        .addTransformer(formatChildOutputLine)
+        .start(),
+      new OutputPipe(child.stderr!, process.stderr)
+        .addTransformer(formatChildOutputLine)
+        .start(),
+    ];
+
+    const killChild = () => {
+      process.kill(interactive ? child.pid! : -child.pid!);
+    };
+
+    const onProcessKilled = async () => {
+      killChild();
+    };
+
+    process.on("SIGINT", onProcessKilled);
+    isRunning = true;
+
+    // "close" is emitted once the output of the app is flushed, so
+    // that the exit is reported after it
+    const onClose = async (
+      code: number | null,
+      signal: NodeJS.Signals | null,
+    ) => {
+      isRunning = false;
+      pipes.forEach((pipe) => pipe.stop());
+      process.off("SIGINT", onProcessKilled);
+      cleanup = () => {};
+
+      program.events.emit("appExit", { code, signal });
+
+      if (code === RELOAD_EXIT_CODE) {
+        Output.print(html`<span color="yellow">Reloading...</span>`);
+        spawnApp();
+        return;
+      }
+
+      if (code === 0) {
+        await dispose();
+        return;
+      }
+
+      Output.print(html`
+        <span color="lightRed">The app ${describeExit(code, signal)}.</span>
+      `);
+
+      if (!program.watchMode) {
+        if (!program.embedded) {
+          process.exitCode = code ?? 1;
+        }
+        await dispose();
+        return;
+      }
+
+      crashes.recordCrash(Date.now() - startedAt);
+
+      if (!restartOnCrash) {
+        Output.print(html`
+          <span color="yellow">Waiting for changes before restarting...</span>
+        `);
+        return;
+      }
+
+      if (crashes.isCrashLooping) {
+        Output.print(html`
+          <line color="yellow">
+            The app crashed ${crashes.fastCrashCount} times in a row right
+            after starting.
+          </line>
+          <line color="yellow">Waiting for changes before restarting...</line>
+        `);
+        return;
+      }
+
+      const delay = crashes.nextRestartDelay();
+      const message = delay > 0
+        ? `Restarting in ${delay / 1000}s...`
+        : "Restarting...";
+
+      Output.print(html`<span color="yellow">${message}</span>`);
+      pendingRestart = setTimeout(spawnApp, delay);
+    };
+
+    child.on("close", onClose);
+
+    cleanup = async () => {
+      isRunning = false;
+      pipes.forEach((pipe) => pipe.stop());
+      process.off("SIGINT", onProcessKilled);
+      child.off("close", onClose);
+      killChild();
+      await sleep(250);
+    };
+  };
+
+  const applyBuild = async (result: esbuild.BuildResult) => {
+    if (isRunning && tryHotUpdate && await tryHotUpdate(result)) {
+      return;
+    }
+
+    await cleanup();
+    await beforeEachStart?.();
+    await onFirstBuild.beforeStart();
+
+    crashes.reset();
+    spawnApp();
+  };
+
+  program.onClose(async () => {
+    clearTimeout(pendingRestart);
+    await cleanup();
+  });
 
   return {
     name: "react-gtk-start-app-esbuild-plugin",
     setup(build: esbuild.PluginBuild) {
-      build.onEnd(async () => {
-        await cleanup();
-        await onFirstBuild.beforeStart();
-
-        // spawn the bash process
-        const child = spawn("meson", ["compile", "-C", "_build", "run"], {
-          stdio: ["ignore", "pipe", "pipe"],
-          shell: true,
-          cwd: getCwd(),
-          detached: true,
-        });
-
-        const outPipe = new OutputPipe(child.stdout, process.stdout)
-          .addTransformer(formatChildOutputLine)
-          .start();
-        const errPipe = new OutputPipe(child.stderr, process.stderr)
-          .addTransformer(formatChildOutputLine)
-          .start();
-
-        const onProcessKilled = async () => {
-          // @ts-expect-error
-          process.kill(-child.pid);
-        };
-
-        process.on("SIGINT", onProcessKilled);
-
-        const onExit = async () => {
-          await program.esbuildCtx.cancel();
-          await program.esbuildCtx.dispose();
-          process.off("exit", onProcessKilled);
-        };
-
-        child.on("exit", onExit);
-
-        cleanup = async () => {
-          outPipe.stop();
-          errPipe.stop();
-          child.off("exit", onExit);
-          process.kill(-child.pid!);
-          await sleep(250);
-        };
+      build.onStart(() => {
+        clearTimeout(pendingRestart);
+      });
+
+      build.onEnd(async (result) => {
+        // the running app is kept, there is nothing to start
+        if (result.errors.length > 0) return;
+
+        // the build context is disposed once the single build is done,
+        // the app has to be started before that
+        if (!program.watchMode) {
+          await applyBuild(result);
+          return;
+        }
+
+        // Saving a file several times in a row triggers a build for
+        // each save, only the last one is applied
+        const delay = isRunning ? RESTART_DEBOUNCE : 0;
+
+        pendingRestart = setTimeout(() => {
+          queue = queue
+            .then(() => applyBuild(result))
+            .catch((e) => {
+              console.error(e);
+              Output.print(html`
+                <span color="lightRed">
+                  Failed to start the app, waiting for changes...
+                </span>
+              `);
+            });
+        }, delay);
       });
     },
   };
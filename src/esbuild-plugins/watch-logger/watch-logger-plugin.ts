@@ -1,19 +1,188 @@
-import type esbuild from "esbuild";
-import { html, Output } from "termx-markup";
+import { spawn } from "child_process";
+import esbuild from "esbuild";
+import { statSync } from "fs";
+import path from "path";
+import { html, MarkupFormatter, Output } from "termx-markup";
+import type { Program } from "../../programs/base";
+import { formatBytes } from "../../utils/format-bytes";
+import { StatusLine } from "../../utils/status-line";
 
-export const watchLoggerPlugin = () => {
+export type BuildNotification = "bell" | "desktop";
+
+/** Number of changed files listed before the rest is summarized. */
+const MAX_LISTED_FILES = 3;
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+const formatSizeDelta = (delta: number) => {
+  if (delta === 0) return "no change";
+  const sign = delta > 0 ? "+" : "-";
+  return `${sign}${formatBytes(Math.abs(delta))}`;
+};
+
+const formatFileList = (files: string[]) => {
+  const listed = files.slice(0, MAX_LISTED_FILES);
+  const rest = files.length - listed.length;
+  if (rest > 0) return `${listed.join(", ")} and ${rest} more`;
+  if (listed.length === 1) return listed[0]!;
+  return `${listed.slice(0, -1).join(", ")} and ${listed.at(-1)}`;
+};
+
+const getMtime = (filePath: string) => {
+  try {
+    return statSync(filePath).mtimeMs;
+  } catch {
+    // the file was removed
+    return -1;
+  }
+};
+
+const getOutputSize = (metafile?: esbuild.Metafile) => {
+  if (!metafile) return;
+  return Object.entries(metafile.outputs)
+    .filter(([outPath]) => !outPath.endsWith(".map"))
+    .reduce((size, [, output]) => size + output.bytes, 0);
+};
+
+const notifyFailure = (notification: BuildNotification, errors: number) => {
+  if (notification === "bell") {
+    process.stdout.write("\x07");
+    return;
+  }
+
+  const child = spawn("notify-send", [
+    "--app-name=react-gtk",
+    "Build failed",
+    `${errors} error${errors === 1 ? "" : "s"}, see the terminal for details.`,
+  ], { stdio: "ignore" });
+  // notify-send is not installed, the build output is enough
+  child.on("error", () => {});
+};
+
+/**
+ * Reports each build in watch mode: the files that triggered it,
+ * how long it took, the size of the output compared to the previous
+ * build and the esbuild errors and warnings with their code frames.
+ */
+export const watchLoggerPlugin = (program: Program) => {
   let isFirstBuild = true;
+  let startedAt = 0;
+  let lastSize: number | undefined;
+  let inputs = new Map<string, number>();
+
+  const statusLine = program.showStatusLine ? new StatusLine() : undefined;
+
+  if (statusLine) {
+    program.onClose(() => statusLine.close());
+  }
+
+  const setStatus = (markup: string) => {
+    statusLine?.set(MarkupFormatter.format(markup));
+  };
+
+  const getChangedFiles = () => {
+    const changed: string[] = [];
+    for (const [filePath, mtime] of inputs) {
+      if (getMtime(filePath) !== mtime) {
+        changed.push(path.relative(program.cwd, filePath));
+      }
+    }
+    return changed;
+  };
+
+  const printMessages = async (
+    messages: esbuild.Message[],
+    kind: "error" | "warning",
+  ) => {
+    if (messages.length === 0) return;
+    const formatted = await esbuild.formatMessages(messages, {
+      kind,
+      color: process.stderr.isTTY,
+    });
+    process.stderr.write(formatted.join(""));
+  };
+
   return {
     name: "react-gtk-watch-logger-esbuild-plugin",
     setup(build: esbuild.PluginBuild) {
+      const absWorkingDir = build.initialOptions.absWorkingDir ?? program.cwd;
+
       build.onStart(() => {
-        if (!isFirstBuild) {
-          Output.print(
-            html`<span color="yellow">Changes detected, rebuilding...</span>`,
-          );
-        } else {
+        startedAt = performance.now();
+
+        if (isFirstBuild) {
           isFirstBuild = false;
+        } else {
+          const changed = getChangedFiles();
+          const message = changed.length > 0
+            ? `Changes detected in ${formatFileList(changed)}, rebuilding...`
+            : "Changes detected, rebuilding...";
+          Output.print(html`<span color="yellow">${message}</span>`);
         }
+
+        setStatus(html`<span color="yellow">Building...</span>`);
+      });
+
+      build.onEnd(async (result) => {
+        const duration = formatDuration(performance.now() - startedAt);
+
+        await printMessages(result.warnings, "warning");
+        await printMessages(result.errors, "error");
+
+        if (result.metafile) {
+          inputs = new Map();
+          for (const input of Object.keys(result.metafile.inputs)) {
+            // virtual modules, e.g. `live-css:style.css`
+            if (/^[\w-]+:/.test(input) || input.includes("node_modules")) {
+              continue;
+            }
+            const filePath = path.resolve(absWorkingDir, input);
+            inputs.set(filePath, getMtime(filePath));
+          }
+        }
+
+        const time = new Date().toLocaleTimeString();
+
+        if (result.errors.length > 0) {
+          const count = result.errors.length;
+          const errors = `${count} error${count === 1 ? "" : "s"}`;
+
+          Output.print(html`
+            <span color="lightRed">Build failed with ${errors}.</span>
+          `);
+          setStatus(html`
+            <span color="lightRed">
+              [${time}] Build failed with ${errors}, waiting for changes...
+            </span>
+          `);
+
+          const notification = program.args.notify?.value;
+          if (notification) {
+            notifyFailure(notification as BuildNotification, count);
+          }
+          return;
+        }
+
+        const size = getOutputSize(result.metafile);
+        let sizeInfo = "";
+        if (size !== undefined) {
+          sizeInfo = lastSize === undefined
+            ? `, ${formatBytes(size)}`
+            : `, ${formatBytes(size)} (${formatSizeDelta(size - lastSize)})`;
+          lastSize = size;
+        }
+
+        Output.print(html`
+          <span color="lightGreen">Build finished in ${duration}${sizeInfo}.</span>
+        `);
+        setStatus(html`
+          <span color="lightGreen">
+            [${time}] Build succeeded, watching for changes...
+          </span>
+        `);
       });
     },
   };
@@ -1,6 +1,12 @@
 /// <reference path="../gapp:env.d.ts" preserve="true" />
+/// <reference path="../gapp:i18n.d.ts" preserve="true" />
+/// <reference path="../gapp:settings.d.ts" preserve="true" />
 /// <reference path="../resources.d.ts" preserve="true"" />
 
+export type {
+  ConfigFile as BuildConfigFile,
+  ConfigOverrides as BuildConfigOverrides,
+} from "./config/config-file-type";
 export type { Config as BuildConfig } from "./config/config-type";
 
 declare global {
@@ -39,6 +45,12 @@ declare global {
      * function to work.
      */
     mapStackTrace(stackTrace: string): string;
+    /**
+     * Given a path of a source file as it appears in a mapped stack
+     * trace (relative to the project directory), returns its absolute
+     * path.
+     */
+    resolveSourcePath(filePath: string): string;
     /*
      * Formats given stack trace in the same way the console would format
      * it when given an error to print.
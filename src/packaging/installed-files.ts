@@ -0,0 +1,73 @@
+import type { ExtraInstallFile } from "./templates/meson/extra";
+import type { IconsInstallParams } from "./templates/meson/icons";
+
+export type InstalledFile = {
+  /** The install directory the path is relative to. */
+  dir: "bindir" | "datadir";
+  path: string;
+};
+
+/**
+ * Lists the files installed by the meson configuration generated
+ * from the `data/`, `src/` and `extra/` templates. This must be kept
+ * in sync with those templates.
+ */
+export const getInstalledFiles = (params: {
+  appID: string;
+  packageName: string;
+  icon?: IconsInstallParams;
+  extraFiles?: ExtraInstallFile[];
+}): InstalledFile[] => {
+  const { appID, icon } = params;
+
+  const files: InstalledFile[] = [
+    // src/meson.build and the post install script
+    { dir: "bindir", path: params.packageName },
+    { dir: "datadir", path: `${appID}/${appID}` },
+    { dir: "datadir", path: `${appID}/${appID}.src.gresource` },
+    // data/meson.build
+    { dir: "datadir", path: `${appID}/${appID}.data.gresource` },
+    { dir: "datadir", path: `glib-2.0/schemas/${appID}.gschema.xml` },
+    { dir: "datadir", path: `applications/${appID}.desktop` },
+    { dir: "datadir", path: `metainfo/${appID}.appdata.xml` },
+    { dir: "datadir", path: `dbus-1/services/${appID}.service` },
+  ];
+
+  if (icon) {
+    const iconsDir = "icons/hicolor";
+
+    if (icon.format === "svg") {
+      files.push({
+        dir: "datadir",
+        path: `${iconsDir}/scalable/apps/${appID}.svg`,
+      });
+    }
+
+    if (icon.symbolic) {
+      files.push({
+        dir: "datadir",
+        path: `${iconsDir}/symbolic/apps/${appID}-symbolic.svg`,
+      });
+    }
+
+    for (const size of icon.sizes) {
+      files.push({
+        dir: "datadir",
+        path: `${iconsDir}/${size}x${size}/apps/${appID}.png`,
+      });
+    }
+  }
+
+  for (const extra of params.extraFiles ?? []) {
+    // strip the install dir name from the path
+    const installPath = extra.path.split("/").slice(1).join("/");
+
+    files.push(
+      extra.installDir === "pkgdatadir"
+        ? { dir: "datadir", path: `${appID}/${installPath}` }
+        : { dir: extra.installDir, path: installPath },
+    );
+  }
+
+  return files;
+};
@@ -1,17 +1,179 @@
+import { escapeXml } from "../../../utils/escape-xml";
+import { leftPad } from "../../../utils/left-pad";
+
+type Release = {
+  version: string;
+  date: string;
+  description?: readonly string[];
+};
+
+type Screenshot = {
+  url: string;
+  caption?: string;
+  default?: boolean;
+};
+
+const paragraphs = (lines: readonly string[]) =>
+  lines.map((p) => /* xml */ `<p>${escapeXml(p)}</p>`).join("\n");
+
+const getDescription = (lines?: readonly string[]) => {
+  if (!lines || lines.length === 0) {
+    return /* xml */ `<description>\n</description>`;
+  }
+  return /* xml */ `<description>\n${
+    leftPad(paragraphs(lines), 2)
+  }\n</description>`;
+};
+
+const getScreenshots = (screenshots: readonly Screenshot[]) => {
+  const defaultIdx = Math.max(
+    screenshots.findIndex((s) => s.default),
+    0,
+  );
+
+  return /* xml */ `<screenshots>\n${
+    screenshots
+      .map((s, idx) => {
+        const isDefault = idx === defaultIdx;
+        const lines = [`<image>${escapeXml(s.url)}</image>`];
+        if (s.caption) {
+          lines.push(`<caption>${escapeXml(s.caption)}</caption>`);
+        }
+        return leftPad(
+          /* xml */ `<screenshot${isDefault ? " type=\"default\"" : ""}>\n${
+            leftPad(lines.join("\n"), 2)
+          }\n</screenshot>`,
+          2,
+        );
+      })
+      .join("\n")
+  }\n</screenshots>`;
+};
+
+const getReleases = (releases: readonly Release[]) =>
+  /* xml */ `<releases>\n${
+    releases
+      .map((r) => {
+        const attrs = `version="${escapeXml(r.version)}" date="${
+          escapeXml(r.date)
+        }"`;
+        if (!r.description || r.description.length === 0) {
+          return leftPad(/* xml */ `<release ${attrs}/>`, 2);
+        }
+        return leftPad(
+          /* xml */ `<release ${attrs}>\n${
+            leftPad(getDescription(r.description), 2)
+          }\n</release>`,
+          2,
+        );
+      })
+      .join("\n")
+  }\n</releases>`;
+
+const getList = (tag: string, itemTag: string, items: readonly string[]) =>
+  /* xml */ `<${tag}>\n${
+    items
+      .map((i) => leftPad(`<${itemTag}>${escapeXml(i)}</${itemTag}>`, 2))
+      .join("\n")
+  }\n</${tag}>`;
+
+const getContentRating = (rating: Readonly<Record<string, string>> = {}) => {
+  const attributes = Object.entries(rating).map(([id, value]) =>
+    leftPad(
+      /* xml */ `<content_attribute id="${escapeXml(id)}">${
+        escapeXml(value)
+      }</content_attribute>`,
+      2,
+    )
+  );
+
+  if (attributes.length === 0) {
+    return /* xml */ `<content_rating type="oars-1.1"/>`;
+  }
+
+  return /* xml */ `<content_rating type="oars-1.1">\n${
+    attributes.join("\n")
+  }\n</content_rating>`;
+};
+
 export const getAppData = (params: {
   friendlyName: string;
   appID: string;
   license: string;
-}) =>
-  /* xml */ `
+  summary?: string;
+  description?: readonly string[];
+  homepage?: string;
+  bugtracker?: string;
+  developer?: { id?: string; name: string };
+  screenshots?: readonly Screenshot[];
+  releases?: readonly Release[];
+  categories?: readonly string[];
+  keywords?: readonly string[];
+  contentRating?: Readonly<Record<string, string>>;
+}) => {
+  const sections: string[] = [];
+
+  if (params.summary) {
+    sections.push(/* xml */ `<summary>${escapeXml(params.summary)}</summary>`);
+  }
+
+  sections.push(getDescription(params.description));
+
+  if (params.homepage) {
+    sections.push(
+      /* xml */ `<url type="homepage">${escapeXml(params.homepage)}</url>`,
+    );
+  }
+
+  if (params.bugtracker) {
+    sections.push(
+      /* xml */ `<url type="bugtracker">${escapeXml(params.bugtracker)}</url>`,
+    );
+  }
+
+  if (params.developer) {
+    const id = params.developer.id
+      ? ` id="${escapeXml(params.developer.id)}"`
+      : "";
+    sections.push(
+      /* xml */ `<developer${id}>\n  <name>${
+        escapeXml(params.developer.name)
+      }</name>\n</developer>`,
+    );
+    sections.push(
+      /* xml */ `<developer_name>${
+        escapeXml(params.developer.name)
+      }</developer_name>`,
+    );
+  }
+
+  if (params.screenshots?.length) {
+    sections.push(getScreenshots(params.screenshots));
+  }
+
+  if (params.releases?.length) {
+    sections.push(getReleases(params.releases));
+  }
+
+  if (params.categories?.length) {
+    sections.push(getList("categories", "category", params.categories));
+  }
+
+  if (params.keywords?.length) {
+    sections.push(getList("keywords", "keyword", params.keywords));
+  }
+
+  sections.push(getContentRating(params.contentRating));
+
+  return /* xml */ `
 <?xml version="1.0" encoding="UTF-8"?>
 <component type="desktop">
   <id>${params.appID}</id>
-  <name>${params.friendlyName}</name>
+  <name>${escapeXml(params.friendlyName)}</name>
   <licence>${params.license}</licence>
   <project_group>GNOME</project_group>
   <launchable type="desktop-id">${params.appID}.desktop</launchable>
-  <description>
-  </description>
+${leftPad(sections.join("\n"), 2)}
 </component>
 `.trim();
+};
@@ -1,15 +1,31 @@
+/**
+ * Escapes a value of a list, the `;` separates the values and the
+ * `\` starts an escape sequence.
+ */
+const escapeListValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;");
+
+const toList = (values: readonly string[]) =>
+  `${values.map(escapeListValue).join(";")};`;
+
 export const getDataDesktopEntry = (params: {
   friendlyName: string;
   appID: string;
-  keywords?: string[];
+  comment?: string;
+  categories?: readonly string[];
+  keywords?: readonly string[];
 }) =>
   `
 [Desktop Entry]
 Type=Application
-Name=${params.friendlyName}
+Name=${params.friendlyName}${params.comment ? `\nComment=${params.comment}` : ""}
 Icon=${params.appID}
 Exec=gapplication launch ${params.appID}
 DBusActivatable=true
-StartupNotify=true
-Keywords=${["gtk", "gjs", ...(params.keywords ?? [])].join(";")};
+StartupNotify=true${
+    params.categories?.length
+      ? `\nCategories=${toList(params.categories)}`
+      : ""
+  }
+Keywords=${toList(["gtk", "gjs", ...(params.keywords ?? [])])}
 `.trim();
@@ -1,10 +1,76 @@
 import { appIDToPath } from "../../../utils/app-id-to-path";
+import type { SettingsConfig } from "../../../utils/app-settings";
+import {
+  getSettingEnumId,
+  getSettingGVariantType,
+  toGVariantText,
+} from "../../../utils/app-settings";
+import { escapeXml } from "../../../utils/escape-xml";
+import { leftPad } from "../../../utils/left-pad";
 
-export const getDataGSchema = (params: { appID: string }) =>
-  /* xml */ `
+const getEnums = (appID: string, settings: SettingsConfig) =>
+  Object.entries(settings)
+    .filter(([, def]) => def.type === "enum")
+    .map(([key, def]) =>
+      /* xml */ `<enum id="${getSettingEnumId(appID, key)}">\n${
+        def.choices!
+          .map((choice, idx) =>
+            leftPad(
+              /* xml */ `<value nick="${escapeXml(choice)}" value="${idx}"/>`,
+              2,
+            )
+          )
+          .join("\n")
+      }\n</enum>`
+    );
+
+const getKeys = (appID: string, settings: SettingsConfig) =>
+  Object.entries(settings).map(([key, def]) => {
+    const typeAttr = def.type === "enum"
+      ? `enum="${getSettingEnumId(appID, key)}"`
+      : `type="${getSettingGVariantType(def)}"`;
+
+    const defaultValue = toGVariantText(def, def.default);
+    const lines = [/* xml */ `<default>${escapeXml(defaultValue)}</default>`];
+
+    if (def.summary) {
+      lines.push(/* xml */ `<summary>${escapeXml(def.summary)}</summary>`);
+    }
+    if (def.description) {
+      lines.push(
+        /* xml */ `<description>${escapeXml(def.description)}</description>`,
+      );
+    }
+    if (def.range) {
+      lines.push(
+        /* xml */ `<range min="${toGVariantText(def, def.range.min)}" max="${
+          toGVariantText(def, def.range.max)
+        }"/>`,
+      );
+    }
+
+    return /* xml */ `<key name="${key}" ${typeAttr}>\n${
+      leftPad(lines.join("\n"), 2)
+    }\n</key>`;
+  });
+
+export const getDataGSchema = (params: {
+  appID: string;
+  settings?: SettingsConfig;
+}) => {
+  const settings = params.settings ?? {};
+  const enums = getEnums(params.appID, settings);
+  const keys = getKeys(params.appID, settings);
+
+  return /* xml */ `
 <?xml version="1.0" encoding="UTF-8"?>
-<schemalist gettext-domain="${params.appID}">
-  <schema id="${params.appID}" path="/${appIDToPath(params.appID)}/">
+<schemalist gettext-domain="${params.appID}">${
+    enums.length ? "\n" + leftPad(enums.join("\n"), 2) : ""
+  }
+  <schema id="${params.appID}" path="/${appIDToPath(params.appID)}/">${
+    keys.length ? "\n" + leftPad(keys.join("\n"), 4) : ""
+  }
   </schema>
 </schemalist>
 `.trim();
+};
@@ -7,7 +7,10 @@ export const getDataResources = (params: { appID: string; files?: string[] }) =>
   <gresource prefix="/${appIDToPath(params.appID)}">${
     params.files
       ? "\n" +
-        params.files.map((f) => /* xml */ `    <file>${f}</file>`).join("\n")
+        [...params.files]
+          .sort()
+          .map((f) => /* xml */ `    <file>${f}</file>`)
+          .join("\n")
       : ""
   }
   </gresource>
@@ -0,0 +1,102 @@
+import type { Config } from "../../../config/config-type";
+import type { DeepReadonly } from "../../../programs/base";
+
+/**
+ * Names of the Debian packages providing the typelibs of the GI
+ * libraries, for the libraries that do not follow the
+ * `gir1.2-<name>-<version>` naming scheme.
+ */
+const GIR_PACKAGES: Record<string, (version: string) => string> = {
+  Gdk: (v) => `gir1.2-gtk-${v}`,
+  Gio: () => "gir1.2-glib-2.0",
+  GLib: () => "gir1.2-glib-2.0",
+  GModule: () => "gir1.2-glib-2.0",
+  GObject: () => "gir1.2-glib-2.0",
+  GdkPixbuf: (v) => `gir1.2-gdkpixbuf-${v}`,
+  Gst: (v) => `gir1.2-gstreamer-${v}`,
+  Cally: (v) => `gir1.2-clutter-${v}`,
+  ClutterX11: (v) => `gir1.2-clutter-${v}`,
+  cairo: () => "gir1.2-freedesktop",
+  xlib: () => "gir1.2-freedesktop",
+};
+
+/**
+ * Returns the name of the Debian package providing the typelib of
+ * the given GI library.
+ */
+export const getDebGirPackage = (name: string, version: string) => {
+  const getPackage = GIR_PACKAGES[name]
+    ?? ((v: string) => `gir1.2-${name.toLowerCase()}-${v}`);
+  return getPackage(version);
+};
+
+export const getDebDepends = (
+  giVersions: DeepReadonly<NonNullable<Config["giVersions"]>>,
+  additional: readonly string[] = [],
+) => {
+  const depends = new Set(["gjs"]);
+
+  for (const [name, version] of Object.entries(giVersions)) {
+    if (version == null) continue;
+    depends.add(getDebGirPackage(name, version));
+  }
+
+  for (const dep of additional) {
+    depends.add(dep);
+  }
+
+  return [...depends];
+};
+
+/**
+ * Formats the text as the extended description of the control
+ * file, where each line is indented and empty lines are
+ * replaced with a dot.
+ */
+const formatExtendedDescription = (paragraphs: readonly string[]) =>
+  paragraphs
+    .map((p) =>
+      p
+        .trim()
+        .split("\n")
+        .map((line) => ` ${line.trim()}`)
+        .join("\n")
+    )
+    .join("\n .\n");
+
+export const getDebControl = (params: {
+  packageName: string;
+  version: string;
+  maintainer: string;
+  section: string;
+  priority: string;
+  installedSize: number;
+  depends: string[];
+  homepage?: string;
+  summary: string;
+  description?: readonly string[];
+}) => {
+  const fields: Array<[string, string | number | undefined]> = [
+    ["Package", params.packageName],
+    ["Version", params.version],
+    ["Architecture", "all"],
+    ["Maintainer", params.maintainer],
+    ["Installed-Size", params.installedSize],
+    ["Depends", params.depends.join(", ")],
+    ["Section", params.section],
+    ["Priority", params.priority],
+    ["Homepage", params.homepage],
+  ];
+
+  const lines = fields
+    .filter(([, value]) => value != null && value !== "")
+    .map(([name, value]) => `${name}: ${value}`);
+
+  lines.push(`Description: ${params.summary}`);
+
+  if (params.description?.length) {
+    lines.push(formatExtendedDescription(params.description));
+  }
+
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,14 @@
+export const getDebPostinst = () =>
+  /* sh */ `
+#!/bin/sh
+set -e
+
+if [ "$1" = "configure" ]; then
+  if command -v glib-compile-schemas >/dev/null 2>&1; then
+    glib-compile-schemas /usr/share/glib-2.0/schemas
+  fi
+  if command -v gtk-update-icon-cache >/dev/null 2>&1; then
+    gtk-update-icon-cache -qtf /usr/share/icons/hicolor
+  fi
+fi
+`.trimStart();
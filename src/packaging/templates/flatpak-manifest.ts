@@ -0,0 +1,87 @@
+import { toYaml } from "../../utils/to-yaml";
+
+export const getFlatpakManifest = (params: {
+  appID: string;
+  packageName: string;
+  runtime?: string;
+  runtimeVersion: string;
+  sdk?: string;
+  format?: "json" | "yml";
+  tarball: { path: string; sha256: string };
+  permissions?: {
+    network?: boolean;
+    filesystem?: readonly string[];
+    talkNames?: readonly string[];
+    ownNames?: readonly string[];
+    systemTalkNames?: readonly string[];
+  };
+  finishArgs?: readonly string[];
+}) => {
+  const { permissions = {} } = params;
+
+  const finishArgs = [
+    "--share=ipc",
+    "--socket=fallback-x11",
+    "--socket=wayland",
+    "--device=dri",
+  ];
+
+  if (permissions.network) {
+    finishArgs.push("--share=network");
+  }
+  for (const fs of permissions.filesystem ?? []) {
+    finishArgs.push(`--filesystem=${fs}`);
+  }
+  for (const name of permissions.talkNames ?? []) {
+    finishArgs.push(`--talk-name=${name}`);
+  }
+  for (const name of permissions.ownNames ?? []) {
+    finishArgs.push(`--own-name=${name}`);
+  }
+  for (const name of permissions.systemTalkNames ?? []) {
+    finishArgs.push(`--system-talk-name=${name}`);
+  }
+  for (const arg of params.finishArgs ?? []) {
+    if (!finishArgs.includes(arg)) finishArgs.push(arg);
+  }
+
+  const manifest = {
+    id: params.appID,
+    runtime: params.runtime ?? "org.gnome.Platform",
+    "runtime-version": params.runtimeVersion,
+    sdk: params.sdk ?? "org.gnome.Sdk",
+    command: params.packageName,
+    "finish-args": finishArgs,
+    cleanup: [
+      "/include",
+      "/lib/pkgconfig",
+      "/share/pkgconfig",
+      "/share/aclocal",
+      "/man",
+      "/share/man",
+      "/share/gtk-doc",
+      "/share/vala",
+      "*.la",
+      "*.a",
+    ],
+    modules: [
+      {
+        name: params.packageName,
+        buildsystem: "meson",
+        sources: [
+          {
+            type: "archive",
+            path: params.tarball.path,
+            sha256: params.tarball.sha256,
+          },
+        ],
+      },
+    ],
+  };
+
+  if (params.format === "yml") {
+    return toYaml(manifest) + "\n";
+  }
+
+  return JSON.stringify(manifest, null, 2) + "\n";
+};
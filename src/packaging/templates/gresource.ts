@@ -8,7 +8,10 @@ export const getGResourceXml = (params: { appID: string; files?: string[] }) =>
     <file>main.js</file>${
       params.files
         ? "\n" +
-          params.files.map((f) => /* xml */ `    <file>${f}</file>`).join("\n")
+          [...params.files]
+            .sort()
+            .map((f) => /* xml */ `    <file>${f}</file>`)
+            .join("\n")
         : ""
     }
   </gresource>
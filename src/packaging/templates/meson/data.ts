@@ -1,4 +1,4 @@
-export const getDataMesonBuild = () =>
+export const getDataMesonBuild = (params: { icon?: boolean } = {}) =>
   `
 podir = join_paths(meson.source_root(), 'po')
 app_datadir = get_option('datadir')
@@ -69,5 +69,12 @@ dbus_service = configure_file(
   output: '@0@.service'.format(app_id),
   install: true,
   install_dir: dbusservicedir
-)
+)${
+    params.icon
+      ? `
+
+# Installing the application icon
+subdir('icons')`
+      : ""
+  }
 `.trim();
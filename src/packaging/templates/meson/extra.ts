@@ -0,0 +1,46 @@
+export type ExtraInstallFile = {
+  /** Path of the file relative to the `extra` directory. */
+  path: string;
+  installDir: "datadir" | "bindir" | "pkgdatadir";
+  executable: boolean;
+};
+
+const INSTALL_DIRS: Record<ExtraInstallFile["installDir"], string> = {
+  datadir: "get_option('datadir')",
+  bindir: "get_option('bindir')",
+  pkgdatadir: "pkgdatadir",
+};
+
+/**
+ * Formats the value as a meson string literal, the file paths come
+ * from the config and can contain any characters.
+ */
+const toMesonString = (value: string) =>
+  `'${
+    value
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "\\'")
+      .replace(/\n/g, "\\n")
+  }'`;
+
+export const getExtraMesonBuild = (params: { files: ExtraInstallFile[] }) =>
+  params.files
+    .map((file) => {
+      // files are placed in the extra directory under the install dir
+      // name, followed by their path relative to that install dir
+      const subdirs = file.path.split("/").slice(1, -1);
+      const installDir = subdirs.length
+        ? `join_paths(${INSTALL_DIRS[file.installDir]}, ${
+          subdirs.map(toMesonString).join(", ")
+        })`
+        : INSTALL_DIRS[file.installDir];
+
+      return `
+install_data(
+  ${toMesonString(file.path)},
+  install_dir: ${installDir},
+  install_mode: '${file.executable ? "rwxr-xr-x" : "rw-r--r--"}'
+)
+`.trim();
+    })
+    .join("\n\n");
@@ -0,0 +1,59 @@
+export const ICON_RASTER_SIZES = [16, 24, 32, 48, 64, 128, 256, 512];
+
+export type IconsInstallParams = {
+  sizes: number[];
+  format: "svg" | "png";
+  symbolic: boolean;
+};
+
+export const getIconsMesonBuild = (params: IconsInstallParams) => {
+  const sections = [
+    `
+icondir = join_paths(app_datadir, 'icons', 'hicolor')
+icon_source = files('@0@.${params.format}'.format(app_id))
+scale_icon = join_paths(meson.source_root(), 'meson', 'scale_icon.js')
+`.trim(),
+  ];
+
+  if (params.format === "svg") {
+    sections.push(
+      `
+install_data(
+  '@0@.svg'.format(app_id),
+  install_dir: join_paths(icondir, 'scalable', 'apps')
+)
+`.trim(),
+    );
+  }
+
+  if (params.symbolic) {
+    sections.push(
+      `
+install_data(
+  '@0@-symbolic.svg'.format(app_id),
+  install_dir: join_paths(icondir, 'symbolic', 'apps')
+)
+`.trim(),
+    );
+  }
+
+  // Each raster size is built in a separate subdirectory, since all of
+  // them have to share the same output file name
+  sections.push(
+    params.sizes.map((size) => `subdir('${size}x${size}')`).join("\n"),
+  );
+
+  return sections.join("\n\n");
+};
+
+export const getIconSizeMesonBuild = (params: { size: number }) =>
+  `
+custom_target(
+  'icon-${params.size}',
+  input: icon_source,
+  output: '@0@.png'.format(app_id),
+  command: [gjs, '-m', scale_icon, '@INPUT@', '@OUTPUT@', '${params.size}'],
+  install: true,
+  install_dir: join_paths(icondir, '${params.size}x${params.size}', 'apps')
+)
+`.trim();
@@ -1,13 +1,24 @@
+/**
+ * Minimum versions of meson and of the libraries the generated
+ * meson project depends on.
+ */
+export const MESON_MIN_VERSIONS = {
+  meson: "0.50.0",
+  "gobject-introspection-1.0": "1.35.9",
+  "gjs-1.0": "1.70.0",
+} as const;
+
 export const getMainMesonBuild = (params: {
   appID: string;
   packageName: string;
   packageVersion: string;
   license: string;
+  extraFiles?: boolean;
 }) =>
   `
 project('${params.packageName}', 'c',
   version: '${params.packageVersion}',
-  meson_version: '>= 0.50.0',
+  meson_version: '>= ${MESON_MIN_VERSIONS.meson}',
   license: '${params.license}'
 )
 
@@ -15,8 +26,10 @@ gnome = import('gnome')
 intl = import('i18n')
 
 dependency('glib-2.0')
-dependency('gobject-introspection-1.0', version: '>=1.35.9')
-dependency('gjs-1.0', version: '>= 1.70.0')
+dependency('gobject-introspection-1.0', version: '>=${
+    MESON_MIN_VERSIONS["gobject-introspection-1.0"]
+  }')
+dependency('gjs-1.0', version: '>= ${MESON_MIN_VERSIONS["gjs-1.0"]}')
 
 app_id = '${params.appID}'
 
@@ -43,12 +56,12 @@ app_configuration.set('pkgdatadir', pkgdatadir)
 
 subdir('data')
 subdir('src')
-subdir('po')
+subdir('po')${params.extraFiles ? "\nsubdir('extra')" : ""}
 
 meson.add_install_script(
   'meson/meson_post_install.py',
-  get_option('datadir'),
-  pkgdatadir,
+  join_paths(app_prefix, get_option('datadir')),
+  join_paths(app_prefix, pkgdatadir),
   app_bindir,
   app_id
 )
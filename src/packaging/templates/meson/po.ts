@@ -1,6 +1,5 @@
-export const getPoMesonBuild = () => `
-langs = [
-    'en'
+export const getPoMesonBuild = (params: { languages: string[] }) => `
+langs = [${params.languages.map((lang) => `\n    '${lang}',`).join("")}
 ]
 
 if langs.length() > 0
@@ -8,10 +7,12 @@ intl.gettext(GETTEXT_PACKAGE,
     languages: langs,
     args: [
     '--from-code=UTF-8',
+    '--keyword=_',
+    '--keyword=ngettext:1,2',
+    '--keyword=pgettext:1c,2',
     '--keyword=g_dngettext:2,3',
     '--add-comments',
     ],
 )
 endif
-  
-`;
+`.trimStart();
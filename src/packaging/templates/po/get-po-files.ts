@@ -1,19 +1,32 @@
-export const getPoFiles = (params: { appName: string }) => [
-  {
-    language: "en",
-    content: `
-msgid ""
-msgstr ""
-"Project-Id-Version: ${params.appName} 1.0.0\\n"
-"Report-Msgid-Bugs-To: \\n"
-"POT-Creation-Date: 2013-02-22 03:56+0100\\n"
-"PO-Revision-Date: 2013-02-22 03:58+0100\\n"
-"Last-Translator: \\n"
-"Language-Team: English\\n"
-"Language: en\\n"
-"MIME-Version: 1.0\\n"
-"Content-Type: text/plain; charset=utf-8\\n"
-"Content-Transfer-Encoding: 8bit\\n"
-`.trim(),
-  },
-];
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+
+export type PoFile = {
+  language: string;
+  content: string;
+};
+
+/**
+ * Reads all the `.po` files from the project po directory. The language
+ * of each file is determined from its name (e.g. `pt_BR.po`).
+ */
+export const getPoFiles = async (params: {
+  poDirPath: string;
+}): Promise<PoFile[]> => {
+  if (!existsSync(params.poDirPath)) return [];
+
+  const filenames = (await fs.readdir(params.poDirPath))
+    .filter((filename) => filename.endsWith(".po"))
+    .sort();
+
+  return Promise.all(
+    filenames.map(async (filename) => ({
+      language: path.basename(filename, ".po"),
+      content: await fs.readFile(
+        path.resolve(params.poDirPath, filename),
+        "utf-8",
+      ),
+    })),
+  );
+};
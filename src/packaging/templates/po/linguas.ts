@@ -1 +1,2 @@
-export const getLinguas = () => "en\n";
+export const getLinguas = (params: { languages: string[] }) =>
+  params.languages.map((lang) => `${lang}\n`).join("");
@@ -0,0 +1,82 @@
+import type { TranslatableMessage } from "../../../utils/extract-messages";
+
+const escapePoString = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, "\\\"")
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r");
+
+/**
+ * Formats the string as a PO keyword entry. Multiline strings are
+ * split into one quoted line per source line.
+ */
+const formatPoString = (keyword: string, value: string) => {
+  const lines = escapePoString(value).split("\n");
+
+  if (lines.length === 1) {
+    return `${keyword} "${lines[0]}"`;
+  }
+
+  const parts = lines
+    .map((line, idx) => (idx < lines.length - 1 ? `${line}\\n` : line))
+    .filter((line) => line.length > 0)
+    .map((line) => `"${line}"`);
+
+  return [`${keyword} ""`, ...parts].join("\n");
+};
+
+const formatDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${
+    pad(date.getUTCDate())
+  } ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}+0000`;
+};
+
+const formatMessage = (message: TranslatableMessage) => {
+  const lines = [`#: ${message.references.join(" ")}`];
+
+  if (message.context != null) {
+    lines.push(formatPoString("msgctxt", message.context));
+  }
+
+  lines.push(formatPoString("msgid", message.msgid));
+
+  if (message.msgidPlural != null) {
+    lines.push(formatPoString("msgid_plural", message.msgidPlural));
+    lines.push(`msgstr[0] ""`, `msgstr[1] ""`);
+  } else {
+    lines.push(`msgstr ""`);
+  }
+
+  return lines.join("\n");
+};
+
+export const getPot = (params: {
+  packageName: string;
+  packageVersion: string;
+  bugtracker?: string;
+  creationDate: Date;
+  messages: TranslatableMessage[];
+}) => {
+  const header = `
+# Translation template for ${params.packageName}.
+#
+#, fuzzy
+msgid ""
+msgstr ""
+"Project-Id-Version: ${params.packageName} ${params.packageVersion}\\n"
+"Report-Msgid-Bugs-To: ${params.bugtracker ?? ""}\\n"
+"POT-Creation-Date: ${formatDate(params.creationDate)}\\n"
+"PO-Revision-Date: YEAR-MO-DA HO:MI+ZONE\\n"
+"Last-Translator: FULL NAME <EMAIL@ADDRESS>\\n"
+"Language-Team: LANGUAGE <LL@li.org>\\n"
+"Language: \\n"
+"MIME-Version: 1.0\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Content-Transfer-Encoding: 8bit\\n"
+"Plural-Forms: nplurals=INTEGER; plural=EXPRESSION;\\n"
+`.trim();
+
+  return [header, ...params.messages.map(formatMessage)].join("\n\n") + "\n";
+};
@@ -0,0 +1,79 @@
+import type { InstalledFile } from "../installed-files";
+
+const RPM_DIR_MACROS: Record<InstalledFile["dir"], string> = {
+  bindir: "%{_bindir}",
+  datadir: "%{_datadir}",
+};
+
+const BUILD_REQUIRES = [
+  "gcc",
+  "meson",
+  "gettext",
+  "gjs-devel",
+  "glib2-devel",
+  "gobject-introspection-devel",
+  "desktop-file-utils",
+];
+
+export const getRpmSpec = (params: {
+  appID: string;
+  packageName: string;
+  version: string;
+  license: string;
+  summary: string;
+  description: readonly string[];
+  homepage?: string;
+  tarballName: string;
+  giImports: Array<[name: string, version: string | undefined]>;
+  installedFiles: InstalledFile[];
+  hasTranslations: boolean;
+}) => {
+  const requires = [
+    "gjs",
+    ...params.giImports.map(([name, version]) =>
+      version ? `typelib(${name}) = ${version}` : `typelib(${name})`
+    ),
+  ];
+
+  const header = [
+    `Name:           ${params.packageName}`,
+    `Version:        ${params.version}`,
+    `Release:        1%{?dist}`,
+    `Summary:        ${params.summary}`,
+    `License:        ${params.license}`,
+    params.homepage ? `URL:            ${params.homepage}` : undefined,
+    `Source0:        ${params.tarballName}`,
+    `BuildArch:      noarch`,
+    "",
+    ...BUILD_REQUIRES.map((r) => `BuildRequires:  ${r}`),
+    "",
+    ...requires.map((r) => `Requires:       ${r}`),
+  ].filter((line) => line !== undefined);
+
+  const files = [
+    `%dir %{_datadir}/${params.appID}`,
+    ...params.installedFiles.map(
+      (file) => `${RPM_DIR_MACROS[file.dir]}/${file.path}`,
+    ),
+  ];
+
+  return `
+${header.join("\n")}
+
+%description
+${params.description.join("\n\n")}
+
+%prep
+%autosetup -n ${params.packageName}
+
+%build
+%meson
+%meson_build
+
+%install
+%meson_install${params.hasTranslations ? `\n%find_lang ${params.appID}` : ""}
+
+%files${params.hasTranslations ? ` -f ${params.appID}.lang` : ""}
+${files.join("\n")}
+`.trimStart();
+};
@@ -0,0 +1,16 @@
+export const getScaleIconScript = () =>
+  /* js */ `
+import GdkPixbuf from "gi://GdkPixbuf";
+import system from "system";
+
+const [input, output, size] = system.programArgs;
+
+const pixbuf = GdkPixbuf.Pixbuf.new_from_file_at_scale(
+  input,
+  Number(size),
+  Number(size),
+  true,
+);
+
+pixbuf.savev(output, "png", [], []);
+`.trim();
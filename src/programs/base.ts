@@ -1,5 +1,8 @@
 import { CommandInitPhase, defineOption, Option } from "clify.js";
+import { EventEmitter } from "events";
+import type { ProgramEvents } from "../builder/builder-events";
 import type { Config } from "../config/config-type";
+import type { GiImports } from "../esbuild-plugins/react-gtk/default-gi-imports";
 import type { AppResources } from "../utils/app-resources";
 import { EnvVars } from "../utils/env-vars";
 import { ESBuild } from "../utils/esbuild";
@@ -20,6 +23,23 @@ const WatchOpt = defineOption({
   type: "boolean",
 });
 
+export const NotifyOpt = defineOption({
+  name: "notify",
+  type: "string",
+  description:
+    "In watch mode, notify when a build fails, either with a terminal 'bell' or a 'desktop' notification.",
+  validate(value) {
+    if (value !== "bell" && value !== "desktop") {
+      return {
+        message: "Invalid notify argument.",
+        received: value,
+        expected: "'bell' or 'desktop'",
+      };
+    }
+    return "ok";
+  },
+});
+
 const BuildModeOpt = defineOption({
   char: "m",
   name: "mode",
@@ -39,17 +59,51 @@ const BuildModeOpt = defineOption({
   },
 });
 
+export const AnalyzeOpt = defineOption({
+  name: "analyze",
+  type: "boolean",
+  description:
+    "Write a report of the bundle contents (bundle-analysis.json and bundle-analysis.html) to the output directory.",
+});
+
+export const CleanOpt = defineOption({
+  name: "clean",
+  type: "boolean",
+  description:
+    "Remove the build directory and build everything from scratch, instead of reusing the results of the previous builds.",
+});
+
 export abstract class Program {
-  type: "build" | "bundle" | "init" | "start" = "build";
+  type:
+    | "build"
+    | "bundle"
+    | "init"
+    | "start"
+    | "i18n"
+    | "install"
+    | "uninstall"
+    | "doctor"
+    | "config" = "build";
   envs = new EnvVars();
   config!: DeepReadonly<Config>;
   cwd = process.cwd();
   resources?: AppResources;
+  giImports?: GiImports;
   esbuildCtx = new ESBuild();
+  readonly events = new EventEmitter<ProgramEvents>();
+  /**
+   * Set when the program is run by the builder API, errors are then
+   * thrown or emitted as the `error` event instead of being printed,
+   * and the exit code of the process is left alone.
+   */
+  embedded = false;
+  private closeHandlers: Array<() => any> = [];
 
   readonly args: {
     watch: Option<"boolean", false>;
     mode: Option<"string", true>;
+    /** Defined only by the programs that can run in watch mode. */
+    notify?: Option<"string", false>;
   };
 
   constructor(init: CommandInitPhase) {
@@ -67,6 +121,14 @@ export abstract class Program {
     return this.args.watch.value || false;
   }
 
+  /**
+   * Whether the build status is kept in a line at the bottom of the
+   * terminal in watch mode.
+   */
+  get showStatusLine() {
+    return !this.embedded && !!process.stdout.isTTY;
+  }
+
   get appName() {
     return validateAppName(
       this.config.applicationName.replace(/[^\w\d_-]/g, ""),
@@ -102,6 +164,42 @@ export abstract class Program {
   /** @internal */
   abstract main<T extends this>(program: T): any;
 
+  /**
+   * Handles the errors that happen outside of `main`, e.g. when the
+   * app is started after a build.
+   *
+   * @internal
+   */
+  handleError(e: unknown) {
+    if (this.embedded) {
+      this.events.emit("error", e);
+    } else {
+      handleProgramError(e);
+    }
+  }
+
+  /**
+   * Registers a function that stops whatever the program started
+   * outside of esbuild, called when the program is closed.
+   *
+   * @internal
+   */
+  onClose(handler: () => any) {
+    this.closeHandlers.push(handler);
+  }
+
+  /**
+   * Stops watching for changes and everything started by the program.
+   *
+   * @internal
+   */
+  async close() {
+    await this.esbuildCtx.dispose();
+    for (const handler of this.closeHandlers) {
+      await handler();
+    }
+  }
+
   protected afterBuild?(): void;
 
   /** @internal */
@@ -123,6 +221,30 @@ export abstract class Program {
     }
   }
 
+  /**
+   * Runs the program for the builder API, the errors are thrown
+   * instead of being printed.
+   *
+   * @internal
+   */
+  async runEmbedded(config: DeepReadonly<Config>) {
+    this.embedded = true;
+    this.config = config;
+
+    try {
+      this.populateDefaultEnvVars();
+      const result = await this.main(this);
+      if (this.afterBuild) {
+        await this.afterBuild();
+      }
+      return result;
+    } finally {
+      if (!this.esbuildCtx.isWatching) {
+        await this.esbuildCtx.dispose();
+      }
+    }
+  }
+
   async runWith(
     args: {
       watch?: boolean;
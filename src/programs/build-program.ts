@@ -1,18 +1,40 @@
-import { existsSync, readdirSync } from "fs";
+import { CommandInitPhase, defineOption, Option } from "clify.js";
+import { createHash } from "crypto";
+import { existsSync } from "fs";
 import fs from "fs/promises";
 import path from "path";
 import rimraf from "rimraf";
-import tar from "tar";
 import { html, Output } from "termx-markup";
+import type { Config } from "../config/config-type";
+import { bundleAnalyzerPlugin } from "../esbuild-plugins/bundle-analyzer/bundle-analyzer-plugin";
+import {
+  DEFAULT_GI_VERSIONS,
+  GiImports,
+} from "../esbuild-plugins/react-gtk/default-gi-imports";
+import { getInstalledFiles } from "../packaging/installed-files";
 import { getAppData } from "../packaging/templates/data/appdata";
 import { getDataBusname } from "../packaging/templates/data/busname";
 import { getDataDesktopEntry } from "../packaging/templates/data/desktop-entry";
 import { getDataGSchema } from "../packaging/templates/data/gschema";
 import { getDataResources } from "../packaging/templates/data/resources";
 import { getDataService } from "../packaging/templates/data/service";
+import {
+  getDebControl,
+  getDebDepends,
+} from "../packaging/templates/deb/control";
+import { getDebPostinst } from "../packaging/templates/deb/postinst";
 import { getGResourceXml } from "../packaging/templates/gresource";
+import { getFlatpakManifest } from "../packaging/templates/flatpak-manifest";
 import { getInFile } from "../packaging/templates/in-file";
 import { getDataMesonBuild } from "../packaging/templates/meson/data";
+import type { ExtraInstallFile } from "../packaging/templates/meson/extra";
+import { getExtraMesonBuild } from "../packaging/templates/meson/extra";
+import type { IconsInstallParams } from "../packaging/templates/meson/icons";
+import {
+  getIconSizeMesonBuild,
+  getIconsMesonBuild,
+  ICON_RASTER_SIZES,
+} from "../packaging/templates/meson/icons";
 import { getMainMesonBuild } from "../packaging/templates/meson/main";
 import { getPoMesonBuild } from "../packaging/templates/meson/po";
 import { getSrcMesonBuild } from "../packaging/templates/meson/src";
@@ -20,30 +42,206 @@ import { getPackageJson } from "../packaging/templates/package-json";
 import { getPoFiles } from "../packaging/templates/po/get-po-files";
 import { getLinguas } from "../packaging/templates/po/linguas";
 import { getPostInstallScript } from "../packaging/templates/post-install-script";
+import { getRpmSpec } from "../packaging/templates/rpm-spec";
+import { getScaleIconScript } from "../packaging/templates/scale-icon-script";
 import { AppResources } from "../utils/app-resources";
+import { validateSettings } from "../utils/app-settings";
+import { createArArchive } from "../utils/ar-archive";
+import {
+  diffArtifactDigests,
+  getArtifactDigest,
+} from "../utils/artifact-digest";
 import { Command } from "../utils/command";
+import { createTarball } from "../utils/create-tarball";
 import { getEntrypoint } from "../utils/get-entrypoint";
+import type { AdditionalPlugins } from "../utils/get-plugins";
 import { getPlugins } from "../utils/get-plugins";
+import { getPoDirPath } from "../utils/get-po-dir-path";
+import { listFiles } from "../utils/list-files";
 import { pascalToKebab } from "../utils/pascal-to-kebab";
-import { Program } from "./base";
+import { getSourceDate } from "../utils/source-date-epoch";
+import { validateIcon, validateIconName } from "../utils/validate-icon";
+import { copyIfChanged, writeIfChanged } from "../utils/write-if-changed";
+import { AnalyzeOpt, CleanOpt, NotifyOpt, Program } from "./base";
 import { createBuildOptions } from "./default-build-options";
 
-type PackagingContext = {
+export type PackagingContext = {
   appID: string;
   appName: string;
   appVersion: string;
   packageName: string;
+  /** Set once the icon files are prepared, if the app has an icon. */
+  icon?: IconsInstallParams;
+  /** Set once the po files are prepared. */
+  languages?: string[];
+  /** Set once the extra files are prepared. */
+  extraFiles?: ExtraInstallFile[];
+};
+
+export type TemplateOverride = (
+  context: PackagingContext,
+  defaultContent: string,
+) => string | Promise<string>;
+
+type TemplateName = keyof NonNullable<
+  NonNullable<Config["packaging"]>["templates"]
+>;
+
+type MesonSnippetDir = keyof NonNullable<
+  NonNullable<Config["packaging"]>["mesonSnippets"]
+>;
+
+/**
+ * Paths in the build directory that are not generated from the
+ * templates, and must be kept between the builds.
+ */
+const PRESERVED_BUILD_DIR_PATHS = [
+  // meson build directories
+  "_build",
+  "_deb_build",
+  "_deb",
+  // compiled settings schemas and the dev runner of the start command
+  "_schemas",
+  "_dev",
+  // bundle created by esbuild
+  "src/main.js",
+  "src/main.js.map",
+];
+
+/**
+ * File in the meson build directory storing the options it was
+ * configured with.
+ */
+const MESON_SETUP_STAMP = ".react-gtk-setup.json";
+
+export type BuildTarget = "tarball" | "flatpak" | "deb";
+
+const BUILD_TARGETS: BuildTarget[] = ["tarball", "flatpak", "deb"];
+
+const BuildTargetOpt = defineOption({
+  char: "t",
+  name: "target",
+  type: "string",
+  description:
+    "The package to create, either 'tarball', 'flatpak' or 'deb'. A tarball is always created, other targets are created from it.",
+  default: "tarball",
+  validate(value) {
+    if (!BUILD_TARGETS.includes(value as BuildTarget)) {
+      return {
+        message: "Invalid target argument.",
+        received: value,
+        expected: BUILD_TARGETS.map((t) => `'${t}'`).join(", "),
+      };
+    }
+    return "ok";
+  },
+});
+
+const VerifyReproducibleOpt = defineOption({
+  name: "verify-reproducible",
+  type: "boolean",
+  description:
+    "Build the package twice and check that both builds produce exactly the same files.",
+});
+
+export type BuildArgs = {
+  target?: Option<"string", true>;
+  analyze?: Option<"boolean", false>;
+  verifyReproducible?: Option<"boolean", false>;
+  clean?: Option<"boolean", false>;
+  notify?: Option<"string", false>;
 };
 
 export class BuildProgram extends Program {
-  readonly type: "build" | "bundle" | "init" | "start" = "build";
+  readonly type: Program["type"] = "build";
 
-  additionalPlugins() {
+  declare readonly args: Program["args"] & BuildArgs;
+
+  constructor(init: CommandInitPhase) {
+    super(init);
+    Object.assign(this.args, this.defineBuildArgs(init));
+  }
+
+  /**
+   * Defines the command line options specific to this program.
+   * Programs extending the `BuildProgram` can override this method
+   * to define their own set of options.
+   */
+  protected defineBuildArgs(init: CommandInitPhase): BuildArgs {
+    return {
+      target: init.option(BuildTargetOpt),
+      analyze: init.option(AnalyzeOpt),
+      verifyReproducible: init.option(VerifyReproducibleOpt),
+      clean: init.option(CleanOpt),
+      notify: init.option(NotifyOpt),
+    };
+  }
+
+  get target(): BuildTarget {
+    return (this.args.target?.value ?? "tarball") as BuildTarget;
+  }
+
+  additionalPlugins(): AdditionalPlugins {
+    if (this.args.analyze?.value) {
+      return {
+        after: [bundleAnalyzerPlugin(this)],
+      };
+    }
     return {};
   }
 
+  /**
+   * Paths of the packages created by the last build.
+   *
+   * @internal
+   */
+  packages: string[] = [];
+
+  /**
+   * Files written to the build directory during the current build,
+   * any other files left over from the previous builds are removed.
+   */
+  private generatedFiles = new Set<string>();
+
   protected async write(data: string, ...pathParts: string[]) {
-    await fs.writeFile(path.resolve(...pathParts), data, "utf-8");
+    const filePath = path.resolve(...pathParts);
+    this.generatedFiles.add(filePath);
+    await writeIfChanged(filePath, data);
+  }
+
+  protected async copy(sourcePath: string, ...pathParts: string[]) {
+    const filePath = path.resolve(...pathParts);
+    this.generatedFiles.add(filePath);
+    await copyIfChanged(sourcePath, filePath);
+  }
+
+  /**
+   * Returns the content generated by the default template, or if an
+   * override for that template is defined in the config, the content
+   * returned by that override.
+   */
+  protected async renderTemplate(
+    name: TemplateName,
+    context: PackagingContext,
+    defaultContent: string,
+  ): Promise<string> {
+    const override = this.config.packaging?.templates?.[name];
+
+    if (!override) return defaultContent;
+
+    return await override(context, defaultContent);
+  }
+
+  /**
+   * Appends the meson snippet defined in the config for the given
+   * directory to the meson.build content.
+   */
+  protected appendMesonSnippet(dir: MesonSnippetDir, mesonBuild: string) {
+    const snippet = this.config.packaging?.mesonSnippets?.[dir];
+
+    if (!snippet) return mesonBuild;
+
+    return `${mesonBuild.trimEnd()}\n\n${snippet.trim()}\n`;
   }
 
   protected async createDataDir(buildDirPath: string) {
@@ -80,11 +278,25 @@ export class BuildProgram extends Program {
     poDirPath: string,
     context: PackagingContext,
   ) {
-    const linguas = getLinguas();
-    const poFiles = getPoFiles({
-      appName: context.appName,
+    const poFiles = await getPoFiles({
+      poDirPath: getPoDirPath(this),
     });
-    const poMesonBuild = getPoMesonBuild();
+    const languages = poFiles.map((po) => po.language);
+    context.languages = languages;
+
+    const linguas = await this.renderTemplate(
+      "getLinguas",
+      context,
+      getLinguas({ languages }),
+    );
+    const poMesonBuild = this.appendMesonSnippet(
+      "po",
+      await this.renderTemplate(
+        "getPoMesonBuild",
+        context,
+        getPoMesonBuild({ languages }),
+      ),
+    );
 
     await this.write(linguas, poDirPath, "LINGUAS");
 
@@ -99,38 +311,174 @@ export class BuildProgram extends Program {
     mesonDirPath: string,
     context: PackagingContext,
   ) {
-    const postInstallScript = getPostInstallScript({
-      packageName: context.packageName,
-    });
+    const postInstallScript = await this.renderTemplate(
+      "getPostInstallScript",
+      context,
+      getPostInstallScript({
+        packageName: context.packageName,
+      }),
+    );
 
     await this.write(postInstallScript, mesonDirPath, "meson_post_install.py");
+
+    if (this.config.icon) {
+      await this.write(
+        await this.renderTemplate(
+          "getScaleIconScript",
+          context,
+          getScaleIconScript(),
+        ),
+        mesonDirPath,
+        "scale_icon.js",
+      );
+    }
+  }
+
+  protected async prepareIconFiles(
+    dataDirPath: string,
+    context: PackagingContext,
+  ) {
+    const { icon } = this.config;
+
+    if (!icon) return;
+
+    validateIconName(context.appID);
+
+    const sourcePath = path.resolve(this.cwd, icon.source);
+    const info = await validateIcon(sourcePath);
+
+    const iconsDirPath = path.resolve(dataDirPath, "icons");
+    await fs.mkdir(iconsDirPath, { recursive: true });
+
+    await this.copy(
+      sourcePath,
+      iconsDirPath,
+      `${context.appID}.${info.format}`,
+    );
+
+    if (icon.symbolic) {
+      const symbolicPath = path.resolve(this.cwd, icon.symbolic);
+      await validateIcon(symbolicPath, { symbolic: true });
+      await this.copy(
+        symbolicPath,
+        iconsDirPath,
+        `${context.appID}-symbolic.svg`,
+      );
+    }
+
+    // Raster icons should not be upscaled
+    const sizes = info.format === "svg"
+      ? ICON_RASTER_SIZES
+      : ICON_RASTER_SIZES.filter((size) => size <= info.width);
+
+    context.icon = {
+      sizes,
+      format: info.format,
+      symbolic: !!icon.symbolic,
+    };
+
+    await this.write(
+      await this.renderTemplate(
+        "getIconsMesonBuild",
+        context,
+        getIconsMesonBuild(context.icon),
+      ),
+      iconsDirPath,
+      "meson.build",
+    );
+
+    for (const size of sizes) {
+      const sizeDirPath = path.resolve(iconsDirPath, `${size}x${size}`);
+      await fs.mkdir(sizeDirPath, { recursive: true });
+      await this.write(
+        await this.renderTemplate(
+          "getIconSizeMesonBuild",
+          context,
+          getIconSizeMesonBuild({ size }),
+        ),
+        sizeDirPath,
+        "meson.build",
+      );
+    }
   }
 
   protected async prepareDataDirFiles(
     dataDirPath: string,
     context: PackagingContext,
   ) {
-    const appData = getAppData({
-      appID: context.appID,
-      license: this.config.license ?? "GPL2",
-      friendlyName: this.config.friendlyName ?? this.config.applicationName,
-    });
-    const dataBusname = getDataBusname({
-      appID: context.appID,
-    });
-    const dataDesktopEntry = getDataDesktopEntry({
-      appID: context.appID,
-      friendlyName: this.config.friendlyName ?? this.config.applicationName,
-    });
-    const gschema = getDataGSchema({
-      appID: context.appID,
-    });
-    const resources = getDataResources({
-      appID: context.appID,
-      files: this.resources?.getAll().map((r) => r.name),
-    });
-    const dataService = getDataService();
-    const mesonBuild = getDataMesonBuild();
+    const { metadata } = this.config;
+
+    const appData = await this.renderTemplate(
+      "getAppData",
+      context,
+      getAppData({
+        appID: context.appID,
+        license: this.config.license ?? "GPL2",
+        friendlyName: this.config.friendlyName ?? this.config.applicationName,
+        summary: metadata?.summary,
+        description: metadata?.description,
+        homepage: metadata?.homepage,
+        bugtracker: metadata?.bugtracker,
+        developer: metadata?.developer,
+        screenshots: metadata?.screenshots,
+        releases: metadata?.releases,
+        categories: metadata?.categories,
+        keywords: metadata?.keywords,
+        contentRating: metadata?.contentRating,
+      }),
+    );
+    const dataBusname = await this.renderTemplate(
+      "getDataBusname",
+      context,
+      getDataBusname({
+        appID: context.appID,
+        documentationUrl: metadata?.homepage,
+      }),
+    );
+    const dataDesktopEntry = await this.renderTemplate(
+      "getDataDesktopEntry",
+      context,
+      getDataDesktopEntry({
+        appID: context.appID,
+        friendlyName: this.config.friendlyName ?? this.config.applicationName,
+        comment: metadata?.summary,
+        categories: metadata?.categories,
+        keywords: metadata?.keywords,
+      }),
+    );
+    if (this.config.settings) {
+      validateSettings(this.config.settings);
+    }
+
+    const gschema = await this.renderTemplate(
+      "getDataGSchema",
+      context,
+      getDataGSchema({
+        appID: context.appID,
+        settings: this.config.settings,
+      }),
+    );
+    const resources = await this.renderTemplate(
+      "getDataResources",
+      context,
+      getDataResources({
+        appID: context.appID,
+        files: this.resources?.getAll().map((r) => r.name),
+      }),
+    );
+    const dataService = await this.renderTemplate(
+      "getDataService",
+      context,
+      getDataService(),
+    );
+    const mesonBuild = this.appendMesonSnippet(
+      "data",
+      await this.renderTemplate(
+        "getDataMesonBuild",
+        context,
+        getDataMesonBuild({ icon: !!this.config.icon }),
+      ),
+    );
 
     await this.write(appData, dataDirPath, `${context.appID}.appdata.xml.in`);
     await this.write(dataBusname, dataDirPath, `${context.appID}.busname`);
@@ -149,27 +497,41 @@ export class BuildProgram extends Program {
     await this.write(mesonBuild, dataDirPath, "meson.build");
 
     for (const resource of this.resources?.getAll() || []) {
-      await fs.copyFile(
-        resource.fullPath,
-        path.resolve(dataDirPath, resource.name),
-      );
+      await this.copy(resource.fullPath, dataDirPath, resource.name);
     }
+
+    await this.prepareIconFiles(dataDirPath, context);
   }
 
   protected async prepareSrcDirFiles(
     srcDirPath: string,
     context: PackagingContext,
   ) {
-    const inFile = getInFile({
-      appID: context.appID,
-    });
+    const inFile = await this.renderTemplate(
+      "getInFile",
+      context,
+      getInFile({
+        appID: context.appID,
+      }),
+    );
 
-    const gresource = getGResourceXml({
-      appID: context.appID,
-      files: this.config.sourcemap ? ["main.js.map"] : [],
-    });
+    const gresource = await this.renderTemplate(
+      "getGResourceXml",
+      context,
+      getGResourceXml({
+        appID: context.appID,
+        files: this.config.sourcemap ? ["main.js.map"] : [],
+      }),
+    );
 
-    const srcMesonBuild = getSrcMesonBuild();
+    const srcMesonBuild = this.appendMesonSnippet(
+      "src",
+      await this.renderTemplate(
+        "getSrcMesonBuild",
+        context,
+        getSrcMesonBuild(),
+      ),
+    );
 
     const inFilePath = path.resolve(srcDirPath, `${context.appID}.in`);
 
@@ -188,22 +550,124 @@ export class BuildProgram extends Program {
     buildDirPath: string,
     context: PackagingContext,
   ) {
-    const mainMesonBuild = getMainMesonBuild({
-      appID: context.appID,
-      packageName: context.packageName,
-      packageVersion: context.appVersion,
-      license: this.config.license ?? "GPL2",
-    });
+    const mainMesonBuild = this.appendMesonSnippet(
+      "main",
+      await this.renderTemplate(
+        "getMainMesonBuild",
+        context,
+        getMainMesonBuild({
+          appID: context.appID,
+          packageName: context.packageName,
+          packageVersion: context.appVersion,
+          license: this.config.license ?? "GPL2",
+          extraFiles: !!this.config.packaging?.extraFiles?.length,
+        }),
+      ),
+    );
 
-    const packageJson = getPackageJson({
-      appID: context.appID,
-      packageName: context.packageName,
-    });
+    const packageJson = await this.renderTemplate(
+      "getPackageJson",
+      context,
+      getPackageJson({
+        appID: context.appID,
+        packageName: context.packageName,
+      }),
+    );
 
     await this.write(mainMesonBuild, buildDirPath, "meson.build");
     await this.write(packageJson, buildDirPath, `${context.appID}.json`);
   }
 
+  protected async prepareExtraFiles(
+    buildDirPath: string,
+    context: PackagingContext,
+  ) {
+    const extraFiles = this.config.packaging?.extraFiles;
+
+    if (!extraFiles?.length) return;
+
+    const extraDirPath = path.resolve(buildDirPath, "extra");
+    const files: ExtraInstallFile[] = [];
+
+    for (const extra of extraFiles) {
+      const sourcePath = path.resolve(this.cwd, extra.source);
+      const destination = (extra.destination ?? path.basename(extra.source))
+        .replace(/\\/g, "/");
+
+      if (
+        path.isAbsolute(destination)
+        || destination.split("/").some((part) => part === ".." || part === "")
+      ) {
+        throw new Error(
+          `Invalid extra file destination '${destination}': it must be a relative path inside the install directory.`,
+        );
+      }
+
+      if (!existsSync(sourcePath)) {
+        throw new Error(`Extra file '${extra.source}' does not exist.`);
+      }
+
+      const filePath = `${extra.installDir}/${destination}`;
+      const targetPath = path.resolve(extraDirPath, filePath);
+
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await this.copy(sourcePath, targetPath);
+
+      files.push({
+        path: filePath,
+        installDir: extra.installDir,
+        executable: extra.executable ?? extra.installDir === "bindir",
+      });
+    }
+
+    context.extraFiles = files;
+
+    await this.write(
+      await this.renderTemplate(
+        "getExtraMesonBuild",
+        context,
+        getExtraMesonBuild({ files }),
+      ),
+      extraDirPath,
+      "meson.build",
+    );
+  }
+
+  /**
+   * Removes the files left over in the build directory from the
+   * previous builds, that were not generated by the current one.
+   */
+  protected async pruneBuildDir(buildDirPath: string) {
+    const prune = async (dirPath: string): Promise<boolean> => {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      let isEmpty = true;
+
+      for (const entry of entries) {
+        const entryPath = path.resolve(dirPath, entry.name);
+        const relPath = path.relative(buildDirPath, entryPath)
+          .replace(/\\/g, "/");
+
+        if (PRESERVED_BUILD_DIR_PATHS.includes(relPath)) {
+          isEmpty = false;
+        } else if (entry.isDirectory()) {
+          if (await prune(entryPath)) {
+            await fs.rmdir(entryPath);
+          } else {
+            isEmpty = false;
+          }
+        } else if (!this.generatedFiles.has(entryPath)) {
+          await fs.rm(entryPath);
+        } else {
+          isEmpty = false;
+        }
+      }
+
+      return isEmpty;
+    };
+
+    await prune(buildDirPath);
+  }
+
   protected async prepareBuildFiles(appName: string, buildDirPath: string) {
     const context: PackagingContext = {
       appName,
@@ -212,6 +676,8 @@ export class BuildProgram extends Program {
       packageName: `${pascalToKebab(appName)}`,
     };
 
+    this.generatedFiles.clear();
+
     await this.createDataDir(buildDirPath);
     await this.createMesonDir(buildDirPath);
     await this.createPoDir(buildDirPath);
@@ -224,10 +690,231 @@ export class BuildProgram extends Program {
       context,
     );
     await this.preparePoDirFiles(path.resolve(buildDirPath, "po"), context);
+    await this.prepareExtraFiles(buildDirPath, context);
+
+    await this.pruneBuildDir(buildDirPath);
 
     return context;
   }
 
+  protected getTarballPath(context: PackagingContext) {
+    return path.resolve(
+      this.cwd,
+      this.config.outDir,
+      `${context.packageName}-${context.appVersion}.tar.gz`,
+    );
+  }
+
+  protected async createFlatpakManifest(context: PackagingContext) {
+    const flatpak = this.config.packaging?.flatpak;
+
+    if (!flatpak) {
+      throw new Error(
+        "The 'flatpak' target requires the 'packaging.flatpak' option to be defined in the config.",
+      );
+    }
+
+    const tarballPath = this.getTarballPath(context);
+    const tarball = await fs.readFile(tarballPath);
+    const format = flatpak.manifestFormat ?? "json";
+
+    const manifest = await this.renderTemplate(
+      "getFlatpakManifest",
+      context,
+      getFlatpakManifest({
+        appID: context.appID,
+        packageName: context.packageName,
+        runtime: flatpak.runtime,
+        runtimeVersion: flatpak.runtimeVersion,
+        sdk: flatpak.sdk,
+        format,
+        tarball: {
+          path: path.basename(tarballPath),
+          sha256: createHash("sha256").update(tarball).digest("hex"),
+        },
+        permissions: flatpak.permissions,
+        finishArgs: flatpak.finishArgs,
+      }),
+    );
+
+    const manifestPath = path.resolve(
+      path.dirname(tarballPath),
+      `${context.appID}.${format}`,
+    );
+
+    await this.write(manifest, manifestPath);
+
+    return manifestPath;
+  }
+
+  protected async createRpmSpec(context: PackagingContext) {
+    const { metadata } = this.config;
+
+    const summary = metadata?.summary
+      ?? this.config.friendlyName
+      ?? this.config.applicationName;
+
+    const spec = await this.renderTemplate(
+      "getRpmSpec",
+      context,
+      getRpmSpec({
+        appID: context.appID,
+        packageName: context.packageName,
+        version: context.appVersion,
+        license: this.config.license ?? "GPL2",
+        summary,
+        description: metadata?.description ?? [summary],
+        homepage: metadata?.homepage,
+        tarballName: path.basename(this.getTarballPath(context)),
+        giImports: this.giImports?.getImported() ?? [],
+        installedFiles: getInstalledFiles({
+          appID: context.appID,
+          packageName: context.packageName,
+          icon: context.icon,
+          extraFiles: context.extraFiles,
+        }),
+        hasTranslations: !!context.languages?.length,
+      }),
+    );
+
+    const specPath = path.resolve(
+      this.cwd,
+      this.config.outDir,
+      `${context.packageName}.spec`,
+    );
+
+    await this.write(spec, specPath);
+
+    return specPath;
+  }
+
+  protected async createDebPackage(
+    context: PackagingContext,
+    buildDirPath: string,
+    sourceDate: Date,
+  ) {
+    const deb = this.config.packaging?.deb;
+
+    if (!deb) {
+      throw new Error(
+        "The 'deb' target requires the 'packaging.deb' option to be defined in the config.",
+      );
+    }
+
+    const packageName = deb.packageName ?? context.packageName;
+
+    if (!/^[a-z0-9][a-z0-9+.-]+$/.test(packageName)) {
+      throw new Error(
+        `Invalid Debian package name '${packageName}': package names can only contain lowercase letters, numbers and the '+', '-' and '.' characters.`,
+      );
+    }
+
+    const version = deb.revision
+      ? `${context.appVersion}-${deb.revision}`
+      : context.appVersion;
+
+    const debDirPath = path.resolve(buildDirPath, "_deb");
+    const rootDirPath = path.resolve(debDirPath, "root");
+    const controlDirPath = path.resolve(debDirPath, "control");
+
+    await rimraf(debDirPath, {});
+    await fs.mkdir(rootDirPath, { recursive: true });
+    await fs.mkdir(controlDirPath, { recursive: true });
+
+    // Debian packages are always installed under /usr, in a separate
+    // build directory so that the one of the other builds is kept
+    await this.setupMeson(buildDirPath, ["--prefix=/usr"], "_deb_build");
+    await new Command("meson", ["install", "-C", "_deb_build"], {
+      cwd: buildDirPath,
+      env: { ...process.env, DESTDIR: rootDirPath },
+    }).run();
+
+    const md5sums: string[] = [];
+    // in KiB, each file takes at least one block, as in dpkg-gencontrol
+    let installedSize = 0;
+
+    for (const file of await listFiles(rootDirPath)) {
+      const filePath = path.resolve(rootDirPath, file);
+      const stat = await fs.lstat(filePath);
+
+      if (stat.isFile()) {
+        installedSize += Math.ceil(stat.size / 1024);
+
+        const content = await fs.readFile(filePath);
+        const md5 = createHash("md5").update(content).digest("hex");
+        md5sums.push(`${md5}  ${file}`);
+      }
+    }
+
+    const { metadata } = this.config;
+
+    const control = await this.renderTemplate(
+      "getDebControl",
+      context,
+      getDebControl({
+        packageName,
+        version,
+        maintainer: deb.maintainer,
+        section: deb.section ?? "misc",
+        priority: deb.priority ?? "optional",
+        installedSize,
+        depends: getDebDepends(
+          { ...DEFAULT_GI_VERSIONS, ...this.config.giVersions },
+          deb.depends,
+        ),
+        homepage: metadata?.homepage,
+        summary: metadata?.summary
+          ?? this.config.friendlyName
+          ?? this.config.applicationName,
+        description: metadata?.description,
+      }),
+    );
+
+    await this.write(control, controlDirPath, "control");
+    await this.write(md5sums.join("\n") + "\n", controlDirPath, "md5sums");
+    await this.write(
+      await this.renderTemplate("getDebPostinst", context, getDebPostinst()),
+      controlDirPath,
+      "postinst",
+    );
+    await fs.chmod(path.resolve(controlDirPath, "postinst"), "0755");
+
+    const controlTarPath = path.resolve(debDirPath, "control.tar.gz");
+    const dataTarPath = path.resolve(debDirPath, "data.tar.gz");
+
+    await createTarball({
+      cwd: controlDirPath,
+      file: controlTarPath,
+      mtime: sourceDate,
+    });
+    await createTarball({
+      cwd: rootDirPath,
+      file: dataTarPath,
+      mtime: sourceDate,
+    });
+
+    const mtime = Math.floor(sourceDate.getTime() / 1000);
+    const archive = createArArchive([
+      { name: "debian-binary", data: Buffer.from("2.0\n"), mtime },
+      {
+        name: "control.tar.gz",
+        data: await fs.readFile(controlTarPath),
+        mtime,
+      },
+      { name: "data.tar.gz", data: await fs.readFile(dataTarPath), mtime },
+    ]);
+
+    const debPath = path.resolve(
+      this.cwd,
+      this.config.outDir,
+      `${packageName}_${version}_all.deb`,
+    );
+
+    await fs.writeFile(debPath, archive);
+
+    return debPath;
+  }
+
   protected async afterBuild() {
     if (this.config.sourcemap && !this.watchMode) {
       const buildDirPath = path.resolve(this.cwd, this.config.outDir, ".build");
@@ -238,17 +925,59 @@ export class BuildProgram extends Program {
   }
 
   /**
-   * @internal
+   * Configures the meson build directory, `_build` by default. A
+   * build directory from the previous builds is reused if it was
+   * configured with the same options, meson regenerates it on its own
+   * when any of the `meson.build` files change.
    */
-  async main() {
-    Output.print(html` <span color="lightBlue">Building package...</span> `);
+  protected async setupMeson(
+    buildDirPath: string,
+    args: string[],
+    mesonDir = "_build",
+  ) {
+    const mesonBuildDirPath = path.resolve(buildDirPath, mesonDir);
+    const stampPath = path.resolve(mesonBuildDirPath, MESON_SETUP_STAMP);
+    const stamp = JSON.stringify(args);
+
+    const isConfigured = existsSync(
+      path.resolve(mesonBuildDirPath, "build.ninja"),
+    );
 
+    if (isConfigured) {
+      const current = await fs
+        .readFile(stampPath, "utf-8")
+        .catch(() => undefined);
+
+      if (current === stamp) return;
+    }
+
+    await new Command(
+      "meson",
+      ["setup", ...(isConfigured ? ["--reconfigure"] : []), mesonDir, ...args],
+      { cwd: buildDirPath },
+    ).run();
+
+    await fs.writeFile(stampPath, stamp);
+  }
+
+  /**
+   * Bundles the application, generates the meson project from the
+   * templates and compiles it. With `clean`, the build directory is
+   * removed first, by default only when the `--clean` flag is set.
+   */
+  protected async compileProject(
+    mesonSetupArgs: string[] = [],
+    clean = this.args.clean?.value ?? false,
+  ) {
     const appName = this.appName;
     const buildDirPath = path.resolve(this.cwd, this.config.outDir, ".build");
 
     this.resources = new AppResources(this.appID);
+    this.giImports = new GiImports(this.config.giVersions);
 
-    if (existsSync(buildDirPath)) await rimraf(buildDirPath, {});
+    if (clean && existsSync(buildDirPath)) {
+      await rimraf(buildDirPath, {});
+    }
 
     const entrypoint = getEntrypoint(this);
 
@@ -268,39 +997,119 @@ export class BuildProgram extends Program {
 
     await this.esbuildCtx.start();
 
-    const { packageName, appVersion } = await this.prepareBuildFiles(
-      appName,
-      buildDirPath,
-    );
+    const context = await this.prepareBuildFiles(appName, buildDirPath);
 
     if (this.config.beforeBuild) {
       await this.config.beforeBuild(buildDirPath);
     }
 
-    await new Command("meson", ["setup", "_build"], {
+    await this.setupMeson(buildDirPath, mesonSetupArgs);
+    await new Command("meson", ["compile", "-C", "_build"], {
       cwd: buildDirPath,
     }).run();
-    await new Command("meson", ["compile", "--clean", "-C", "_build"], {
+
+    return { context, buildDirPath };
+  }
+
+  /**
+   * Creates the tarball and the packages for the selected target.
+   * Returns the paths of all the created files. The archive entries
+   * are timestamped with the `sourceDate`, by default the
+   * `SOURCE_DATE_EPOCH` or the current time.
+   */
+  protected async createPackages(
+    options: { clean?: boolean; sourceDate?: Date } = {},
+  ) {
+    const sourceDate = options.sourceDate ?? getSourceDate();
+    const { context, buildDirPath } = await this.compileProject(
+      [],
+      options.clean,
+    );
+    const tarballPath = this.getTarballPath(context);
+
+    await createTarball({
       cwd: buildDirPath,
-    }).run();
+      file: tarballPath,
+      prefix: context.packageName,
+      // directories specific to this machine, or used only by `start`
+      exclude: ["_build", "_deb_build", "_deb", "_dev", "_schemas"],
+      mtime: sourceDate,
+    });
 
-    await new Promise<void>((resolve, reject) => {
-      tar.create(
-        {
-          gzip: true,
-          cwd: buildDirPath,
-          file: path.resolve(
-            this.cwd,
-            this.config.outDir,
-            `${packageName}-${appVersion}.tar.gz`,
-          ),
-          prefix: packageName,
-        },
-        readdirSync(buildDirPath),
-        (e) => (e ? reject(e) : resolve()),
+    const files = [tarballPath, await this.createRpmSpec(context)];
+
+    if (this.target === "flatpak") {
+      files.push(await this.createFlatpakManifest(context));
+    }
+
+    if (this.target === "deb") {
+      files.push(
+        await this.createDebPackage(context, buildDirPath, sourceDate),
       );
+    }
+
+    this.packages = files;
+
+    return files;
+  }
+
+  protected async verifyReproducible() {
+    // both builds need to use the same timestamp
+    const sourceDate = getSourceDate();
+
+    const buildAndDigest = async () => {
+      // each build starts from scratch, a reused build directory
+      // would hide the differences in the meson outputs
+      const files = await this.createPackages({ clean: true, sourceDate });
+      return await Promise.all(
+        files.map((f) => getArtifactDigest(f, path.relative(this.cwd, f))),
+      );
+    };
+
+    Output.print(html`
+      <span color="lightBlue">Building package (1/2)...</span>
+    `);
+    const first = await buildAndDigest();
+
+    Output.print(html`
+      <span color="lightBlue">Building package (2/2)...</span>
+    `);
+    const second = await buildAndDigest();
+
+    const differences = first.flatMap((digest) => {
+      const other = second.find((d) => d.name === digest.name);
+      return other
+        ? diffArtifactDigests(digest, other)
+        : [`${digest.name}: missing in the second build`];
     });
 
+    if (differences.length > 0) {
+      throw new Error(
+        `The build is not reproducible, found differences between builds:\n\n${
+          differences.map((d) => `  ${d}`).join("\n")
+        }`,
+      );
+    }
+
+    Output.print(html`
+      <span color="lightGreen">
+        Build is reproducible, ${first.length} files are identical.
+      </span>
+    `);
+  }
+
+  /**
+   * @internal
+   */
+  async main() {
+    if (this.args.verifyReproducible?.value) {
+      return await this.verifyReproducible();
+    }
+
+    Output.print(html` <span color="lightBlue">Building package...</span> `);
+
+    await this.createPackages();
+
     Output.print(html`<span color="lightGreen">Package created.</span>`);
   }
 }
@@ -1,14 +1,30 @@
+import type { CommandInitPhase, Option } from "clify.js";
 import path from "path";
 import { html, Output } from "termx-markup";
+import { bundleAnalyzerPlugin } from "../esbuild-plugins/bundle-analyzer/bundle-analyzer-plugin";
 import { getEntrypoint } from "../utils/get-entrypoint";
+import type { AdditionalPlugins } from "../utils/get-plugins";
 import { getPlugins } from "../utils/get-plugins";
-import { Program } from "./base";
+import { AnalyzeOpt, NotifyOpt, Program } from "./base";
 import { createBuildOptions } from "./default-build-options";
 
 export class BundleProgram extends Program {
   readonly type = "bundle";
 
-  additionalPlugins() {
+  private analyze: Option<"boolean", false>;
+
+  constructor(init: CommandInitPhase) {
+    super(init);
+    this.analyze = init.option(AnalyzeOpt);
+    this.args.notify = init.option(NotifyOpt);
+  }
+
+  additionalPlugins(): AdditionalPlugins {
+    if (this.analyze.value) {
+      return {
+        after: [bundleAnalyzerPlugin(this)],
+      };
+    }
     return {};
   }
 
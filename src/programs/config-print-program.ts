@@ -0,0 +1,54 @@
+import type { AdditionalPlugins } from "../utils/get-plugins";
+import { Program } from "./base";
+
+/**
+ * Functions and regular expressions can't be represented in JSON,
+ * they are printed as strings instead of being omitted.
+ */
+const replaceNonJsonValues = (_: string, value: unknown) => {
+  if (typeof value === "function") {
+    return `[Function${value.name ? ` ${value.name}` : ""}]`;
+  }
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+  return value;
+};
+
+export class ConfigPrintProgram extends Program {
+  readonly type = "config";
+
+  additionalPlugins(): AdditionalPlugins {
+    return {};
+  }
+
+  /**
+   * The config with the defaults that are otherwise applied by the
+   * build commands.
+   */
+  private getResolvedConfig() {
+    return {
+      ...this.config,
+      applicationPrefix: this.config.applicationPrefix ?? "org.gnome",
+      minify: this.config.minify ?? (this.isDev ? false : true),
+      treeShake: this.config.treeShake ?? (this.isDev ? false : true),
+    };
+  }
+
+  /**
+   * @internal
+   */
+  async main() {
+    const output = {
+      mode: this.isDev ? "development" : "production",
+      config: this.getResolvedConfig(),
+      appID: this.appID,
+      appName: this.appName,
+      envVars: this.envs.getAll(),
+    };
+
+    process.stdout.write(
+      JSON.stringify(output, replaceNonJsonValues, 2) + "\n",
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { getConfigJsonSchema } from "../config/config-json-schema";
+import type { AdditionalPlugins } from "../utils/get-plugins";
+import { Program } from "./base";
+
+export class ConfigSchemaProgram extends Program {
+  readonly type = "config";
+
+  additionalPlugins(): AdditionalPlugins {
+    return {};
+  }
+
+  /**
+   * @internal
+   */
+  async main() {
+    process.stdout.write(
+      JSON.stringify(getConfigJsonSchema(), null, 2) + "\n",
+    );
+  }
+
+  /**
+   * The schema doesn't depend on the project, the config is not read.
+   */
+  async run() {
+    return await this.main();
+  }
+}
@@ -0,0 +1,22 @@
+import { html, Output } from "termx-markup";
+import type { AdditionalPlugins } from "../utils/get-plugins";
+import { Program } from "./base";
+
+export class ConfigValidateProgram extends Program {
+  readonly type = "config";
+
+  additionalPlugins(): AdditionalPlugins {
+    return {};
+  }
+
+  /**
+   * The config is already validated when it's read, an invalid config
+   * is reported and the process exits with a non-zero code before
+   * this is called.
+   *
+   * @internal
+   */
+  async main() {
+    Output.print(html`<span color="lightGreen">Config is valid.</span>`);
+  }
+}
@@ -7,6 +7,7 @@ const defaultBuildOptions = {
   jsx: "transform",
   keepNames: true,
   bundle: true,
+  metafile: true,
   define: {
     console: "__console_proxy",
     setTimeout: "__setTimeout_proxy",
@@ -24,6 +25,8 @@ export const createBuildOptions = (
 ): BuildOptions => {
   return {
     sourcemap: "external",
+    // in watch mode the messages are printed by the watch logger
+    logLevel: program.watchMode ? "silent" : "warning",
     ...defaultBuildOptions,
     ...options,
     define: {
@@ -0,0 +1,327 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { html, Output } from "termx-markup";
+import { GiImports } from "../esbuild-plugins/react-gtk/default-gi-imports";
+import { MESON_MIN_VERSIONS } from "../packaging/templates/meson/main";
+import { AppResources } from "../utils/app-resources";
+import { Command } from "../utils/command";
+import { compareVersions, parseVersion } from "../utils/compare-versions";
+import type { DistroFamily } from "../utils/detect-distro";
+import { detectDistro } from "../utils/detect-distro";
+import { findExecutable } from "../utils/find-executable";
+import { findTypelib, getTypelibDirs } from "../utils/find-typelib";
+import { getEntrypoint } from "../utils/get-entrypoint";
+import { getPlugins } from "../utils/get-plugins";
+import {
+  DEPENDENCY_PACKAGES,
+  getInstallCommand,
+  getTypelibPackage,
+} from "../utils/install-hints";
+import { Program } from "./base";
+import { createBuildOptions } from "./default-build-options";
+
+type CheckResult = {
+  name: string;
+  ok: boolean;
+  /** Missing optional dependencies are only reported as warnings. */
+  optional?: boolean;
+  message: string;
+  /** Package that should be installed to fix the problem. */
+  package?: string;
+};
+
+type ToolRequirement = {
+  name: string;
+  minVersion?: string;
+  optional?: boolean;
+};
+
+/**
+ * External programs used when building, starting or installing
+ * the application.
+ */
+const TOOLS: ToolRequirement[] = [
+  { name: "meson", minVersion: MESON_MIN_VERSIONS.meson },
+  { name: "ninja" },
+  { name: "pkg-config" },
+  { name: "gjs", minVersion: MESON_MIN_VERSIONS["gjs-1.0"] },
+  { name: "glib-compile-resources" },
+  { name: "glib-compile-schemas" },
+  { name: "msgfmt" },
+  { name: "gtk-update-icon-cache" },
+  { name: "desktop-file-validate", optional: true },
+  { name: "appstream-util", optional: true },
+];
+
+/**
+ * Libraries the generated meson project depends on, looked up with
+ * `pkg-config`.
+ */
+const LIBRARIES: ToolRequirement[] = [
+  { name: "glib-2.0" },
+  {
+    name: "gobject-introspection-1.0",
+    minVersion: MESON_MIN_VERSIONS["gobject-introspection-1.0"],
+  },
+  { name: "gjs-1.0", minVersion: MESON_MIN_VERSIONS["gjs-1.0"] },
+];
+
+export class DoctorProgram extends Program {
+  readonly type = "doctor";
+
+  additionalPlugins() {
+    return {};
+  }
+
+  private getPackage(distro: DistroFamily | undefined, name: string) {
+    return distro ? DEPENDENCY_PACKAGES[name]?.[distro] : undefined;
+  }
+
+  private checkVersion(
+    requirement: ToolRequirement,
+    version: string | undefined,
+    distro: DistroFamily | undefined,
+  ): CheckResult {
+    if (
+      requirement.minVersion
+      && (!version || compareVersions(version, requirement.minVersion) < 0)
+    ) {
+      return {
+        name: requirement.name,
+        ok: false,
+        message: `${version ?? "unknown version"}, at least ${requirement.minVersion} is required`,
+        package: this.getPackage(distro, requirement.name),
+      };
+    }
+
+    return {
+      name: requirement.name,
+      ok: true,
+      message: version ?? "found",
+    };
+  }
+
+  private async checkTool(
+    tool: ToolRequirement,
+    distro: DistroFamily | undefined,
+  ): Promise<CheckResult> {
+    const executablePath = findExecutable(tool.name);
+
+    if (!executablePath) {
+      return {
+        name: tool.name,
+        ok: false,
+        optional: tool.optional,
+        message: "not found",
+        package: this.getPackage(distro, tool.name),
+      };
+    }
+
+    if (!tool.minVersion) {
+      return { name: tool.name, ok: true, message: executablePath };
+    }
+
+    const output = await new Command(executablePath, ["--version"], {})
+      .run()
+      .catch(() => "");
+
+    return this.checkVersion(tool, parseVersion(output), distro);
+  }
+
+  private async checkLibrary(
+    library: ToolRequirement,
+    distro: DistroFamily | undefined,
+  ): Promise<CheckResult> {
+    try {
+      const output = await new Command(
+        "pkg-config",
+        ["--modversion", library.name],
+        {},
+      ).run();
+
+      return this.checkVersion(library, parseVersion(output), distro);
+    } catch {
+      return {
+        name: library.name,
+        ok: false,
+        message: "not found by pkg-config",
+        package: this.getPackage(distro, library.name),
+      };
+    }
+  }
+
+  /**
+   * Bundles the application to find all of the GI libraries it
+   * imports.
+   */
+  private async getGiImports() {
+    const gi = new GiImports({ ...this.config.giVersions });
+    const tmpDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "react-gtk-doctor-"),
+    );
+
+    this.giImports = gi;
+    this.resources = new AppResources(this.appID);
+
+    try {
+      await this.esbuildCtx.init(
+        createBuildOptions(this, {
+          stdin: {
+            contents: getEntrypoint(this),
+            loader: "js",
+            resolveDir: this.cwd,
+          },
+          absWorkingDir: this.cwd,
+          outfile: path.resolve(tmpDir, "main.js"),
+          plugins: getPlugins(this),
+          logLevel: "silent",
+        }),
+      );
+
+      await this.esbuildCtx.start();
+    } catch {
+      Output.print(html`
+        <span>
+          <span color="yellow">WARN:</span>
+          <span>
+            The application could not be bundled, only the libraries
+            from the giVersions option are checked.
+          </span>
+        </span>
+      `);
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    const libraries = new Map(gi.getImported());
+
+    const giVersions = this.config.giVersions ?? {};
+
+    for (const [name, version] of Object.entries(giVersions)) {
+      if (version != null) libraries.set(name, version);
+    }
+
+    return [...libraries.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  private async checkTypelibs(
+    distro: DistroFamily | undefined,
+  ): Promise<CheckResult[]> {
+    const extraDirs: string[] = [];
+
+    try {
+      const typelibDir = await new Command(
+        "pkg-config",
+        ["--variable=typelibdir", "gobject-introspection-1.0"],
+        {},
+      ).run();
+      extraDirs.push(typelibDir.trim());
+    } catch {
+      //
+    }
+
+    const dirs = getTypelibDirs(extraDirs);
+    const results: CheckResult[] = [];
+
+    for (const [name, version] of await this.getGiImports()) {
+      const label = version ? `${name}-${version}` : name;
+      const typelib = findTypelib(dirs, name, version);
+
+      if (typelib) {
+        results.push({ name: label, ok: true, message: typelib });
+      } else {
+        results.push({
+          name: label,
+          ok: false,
+          message: `typelib not found in ${dirs.join(", ") || "any directory"}`,
+          package: distro && getTypelibPackage(distro, name, version),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private printResults(title: string, results: CheckResult[]) {
+    Output.print(html`<line color="lightBlue">${title}</line>`);
+
+    for (const result of results) {
+      const [color, label] = result.ok
+        ? ["lightGreen", "ok"]
+        : result.optional
+        ? ["yellow", "optional"]
+        : ["lightRed", "missing"];
+
+      Output.print(html`
+        <pad size="2">
+          <span color="${color}">[${label}]</span>
+          <pre> ${result.name}: ${result.message}</pre>
+        </pad>
+      `);
+    }
+  }
+
+  private printHints(distro: DistroFamily | undefined, failed: CheckResult[]) {
+    const packages = failed
+      .map((r) => r.package)
+      .filter((p): p is string => !!p);
+    const unknown = failed.filter((r) => !r.package).map((r) => r.name);
+
+    Output.print(html`<br />`);
+
+    if (distro && packages.length > 0) {
+      Output.print(html`
+        <line>To install the missing dependencies run:</line>
+        <pad size="2">
+          <pre color="white">${getInstallCommand(distro, packages)}</pre>
+        </pad>
+      `);
+    }
+
+    if (unknown.length > 0) {
+      Output.print(html`
+        <line>
+          Install the packages providing the following dependencies with
+          your system package manager: ${unknown.join(", ")}
+        </line>
+      `);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  async main() {
+    const distro = detectDistro();
+
+    const tools = await Promise.all(
+      TOOLS.map((tool) => this.checkTool(tool, distro)),
+    );
+    const libraries = await Promise.all(
+      LIBRARIES.map((library) => this.checkLibrary(library, distro)),
+    );
+    const typelibs = await this.checkTypelibs(distro);
+
+    this.printResults("Tools", tools);
+    this.printResults("Libraries", libraries);
+    this.printResults("GI typelibs", typelibs);
+
+    const all = [...tools, ...libraries, ...typelibs];
+    const failed = all.filter((r) => !r.ok);
+
+    if (failed.length > 0) {
+      this.printHints(distro, failed);
+    }
+
+    if (failed.some((r) => !r.optional)) {
+      process.exitCode = 1;
+    } else {
+      Output.print(html`
+        <span color="lightGreen">
+          All the required dependencies are installed.
+        </span>
+      `);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { html, Output } from "termx-markup";
+import { getPot } from "../packaging/templates/po/pot";
+import { AppResources } from "../utils/app-resources";
+import { getEntrypoint } from "../utils/get-entrypoint";
+import { getPlugins } from "../utils/get-plugins";
+import { getPoDirPath } from "../utils/get-po-dir-path";
+import type { TranslatableMessage } from "../utils/extract-messages";
+import { extractMessages, mergeMessages } from "../utils/extract-messages";
+import { pascalToKebab } from "../utils/pascal-to-kebab";
+import { getSourceDate } from "../utils/source-date-epoch";
+import { Program } from "./base";
+import { createBuildOptions } from "./default-build-options";
+
+const SOURCE_FILE_EXTENSIONS = [".js", ".jsx", ".ts", ".tsx", ".mjs", ".cjs"];
+
+export class I18nExtractProgram extends Program {
+  readonly type = "i18n";
+
+  additionalPlugins() {
+    return {};
+  }
+
+  /**
+   * Bundles the application to find all of the project source files
+   * that are a part of it.
+   */
+  private async getSourceFiles() {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "react-gtk-i18n-"));
+
+    try {
+      this.resources = new AppResources(this.appID);
+
+      await this.esbuildCtx.init(
+        createBuildOptions(this, {
+          stdin: {
+            contents: getEntrypoint(this),
+            loader: "js",
+            resolveDir: this.cwd,
+          },
+          absWorkingDir: this.cwd,
+          outfile: path.resolve(tmpDir, "main.js"),
+          plugins: getPlugins(this),
+          metafile: true,
+          logLevel: "error",
+        }),
+      );
+
+      const result = await this.esbuildCtx.start();
+
+      return Object.keys(result?.metafile?.inputs ?? {})
+        .filter((input) => {
+          return (
+            SOURCE_FILE_EXTENSIONS.includes(path.extname(input))
+            && !input.startsWith("..")
+            && !input.split(/[\\/]/).includes("node_modules")
+            && existsSync(path.resolve(this.cwd, input))
+          );
+        })
+        .sort();
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * @internal
+   */
+  async main() {
+    Output.print(html` <span color="lightBlue"> Extracting messages... </span> `);
+
+    const sourceFiles = await this.getSourceFiles();
+    const messages: TranslatableMessage[] = [];
+
+    for (const file of sourceFiles) {
+      const source = await fs.readFile(path.resolve(this.cwd, file), "utf-8");
+      messages.push(...extractMessages(source, file.replace(/\\/g, "/")));
+    }
+
+    const merged = mergeMessages(messages);
+
+    const pot = getPot({
+      packageName: pascalToKebab(this.appName),
+      packageVersion: this.config.applicationVersion,
+      bugtracker: this.config.metadata?.bugtracker,
+      creationDate: getSourceDate(),
+      messages: merged,
+    });
+
+    const poDirPath = getPoDirPath(this);
+    const potFilePath = path.resolve(poDirPath, `${this.appID}.pot`);
+
+    await fs.mkdir(poDirPath, { recursive: true });
+    await fs.writeFile(potFilePath, pot, "utf-8");
+
+    Output.print(html`
+      <span color="lightGreen">
+        Extracted ${merged.length} messages to ${path.relative(this.cwd, potFilePath)}.
+      </span>
+    `);
+  }
+}
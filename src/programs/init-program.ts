@@ -177,9 +177,6 @@ export class InitProgram {
       if (!hasDep("@types/react")) {
         neededDeps.dev.push("@types/react");
       }
-      if (!hasDep("ts-node")) {
-        neededDeps.dev.push("ts-node");
-      }
       if (!hasDep("gjs-esm-types")) {
         neededDeps.dev.push("gjs-esm-types");
       }
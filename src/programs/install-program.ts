@@ -0,0 +1,128 @@
+import type { CommandInitPhase, Option } from "clify.js";
+import { defineOption } from "clify.js";
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { html, Output } from "termx-markup";
+import { Command } from "../utils/command";
+import type { AdditionalPlugins } from "../utils/get-plugins";
+import {
+  expandHomeDir,
+  getInstallManifestPath,
+  readInstallManifest,
+  removeInstalledFiles,
+  writeInstallManifest,
+} from "../utils/install-manifest";
+import { CleanOpt } from "./base";
+import type { BuildArgs } from "./build-program";
+import { BuildProgram } from "./build-program";
+
+const PrefixOpt = defineOption({
+  char: "p",
+  name: "prefix",
+  type: "string",
+  description: "The installation prefix.",
+  default: "~/.local",
+});
+
+export class InstallProgram extends BuildProgram {
+  readonly type = "install";
+
+  private prefix: Option<"string", true>;
+
+  constructor(init: CommandInitPhase) {
+    super(init);
+    this.prefix = init.option(PrefixOpt);
+  }
+
+  protected defineBuildArgs(init: CommandInitPhase): BuildArgs {
+    return {
+      clean: init.option(CleanOpt),
+    };
+  }
+
+  additionalPlugins(): AdditionalPlugins {
+    return {};
+  }
+
+  get prefixPath() {
+    const prefix = this.prefix.value;
+    return path.resolve(this.cwd, expandHomeDir(prefix));
+  }
+
+  /**
+   * Reads the list of files installed by meson, the log contains
+   * one absolute path per line.
+   */
+  private async getInstalledFiles(buildDirPath: string) {
+    const logPath = path.resolve(
+      buildDirPath,
+      "_build",
+      "meson-logs",
+      "install-log.txt",
+    );
+    const log = await fs.readFile(logPath, "utf-8");
+
+    return log
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith("#"));
+  }
+
+  /**
+   * @internal
+   */
+  async main() {
+    const prefix = this.prefixPath;
+
+    Output.print(html`
+      <span color="lightBlue">Installing to ${prefix}...</span>
+    `);
+
+    const { context, buildDirPath } = await this.compileProject([
+      "--prefix",
+      prefix,
+    ]);
+
+    await new Command("meson", ["install", "-C", "_build"], {
+      cwd: buildDirPath,
+    }).run();
+
+    const files = await this.getInstalledFiles(buildDirPath);
+
+    // The launcher symlink is created by the post-install script,
+    // so it's not included in the meson install log
+    const launcherPath = path.resolve(prefix, "bin", context.packageName);
+    if (existsSync(launcherPath) && !files.includes(launcherPath)) {
+      files.push(launcherPath);
+    }
+
+    const previous = await readInstallManifest(context.appID);
+    if (previous) {
+      await removeInstalledFiles(
+        context.appID,
+        previous.files.filter((file) => !files.includes(file)),
+      );
+    }
+
+    await writeInstallManifest({
+      appID: context.appID,
+      version: context.appVersion,
+      prefix,
+      installedAt: new Date().toISOString(),
+      files: files.sort(),
+    });
+
+    Output.print(html`
+      <span color="lightGreen">
+        Installed ${context.appID} (${files.length} files).
+      </span>
+    `);
+    Output.print(html`
+      <span>
+        The list of installed files was saved to
+        ${getInstallManifestPath(context.appID)}
+      </span>
+    `);
+  }
+}
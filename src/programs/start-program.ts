@@ -1,55 +1,431 @@
+import type { CommandInitPhase, Option } from "clify.js";
+import { defineOption } from "clify.js";
+import type esbuild from "esbuild";
 import { existsSync } from "fs";
+import fs from "fs/promises";
+import os from "os";
 import path from "path";
 import rimraf from "rimraf";
 import { html, Output } from "termx-markup";
+import { sendHotUpdate } from "../esbuild-plugins/hot-reload/hot-reload-client";
+import type { HotUpdate } from "../esbuild-plugins/hot-reload/hot-reload-plugin";
+import { hotReloadPlugin } from "../esbuild-plugins/hot-reload/hot-reload-plugin";
+import { getDevBootstrap } from "../esbuild-plugins/start-app/dev-bootstrap";
+import type { StartCommand } from "../esbuild-plugins/start-app/start-app-plugin";
 import { startAppPlugin } from "../esbuild-plugins/start-app/start-app-plugin";
 import { AppResources } from "../utils/app-resources";
 import { Command } from "../utils/command";
 import { getEntrypoint } from "../utils/get-entrypoint";
 import type { AdditionalPlugins } from "../utils/get-plugins";
 import { getPlugins } from "../utils/get-plugins";
+import { getPassthroughArgs } from "../utils/passthrough-args";
+import { CleanOpt, NotifyOpt } from "./base";
+import type { BuildArgs, PackagingContext } from "./build-program";
 import { BuildProgram } from "./build-program";
 import { createBuildOptions } from "./default-build-options";
 
+const MesonRunnerOpt = defineOption({
+  name: "meson",
+  type: "boolean",
+  description:
+    "Run the app through meson, the same way as after it's installed, instead of starting the bundle directly with gjs. This is slower, since resources are recompiled and the build directory is re-configured on each restart.",
+});
+
+// the argument parser reads `--no-hot` as `hot` set to false
+const HotOpt = defineOption({
+  name: "hot",
+  type: "boolean",
+  description:
+    "Update the running app in place after a rebuild in watch mode, pass --no-hot to always restart it instead.",
+  default: true,
+});
+
+const EnvOpt = defineOption({
+  char: "e",
+  name: "env",
+  type: ["string"],
+  description:
+    "Environment variable to set for the started app, in the KEY=VALUE format. Can be given multiple times.",
+  validate(value) {
+    const invalid = value.find((v) => !/^[A-Za-z_][\w]*=/.test(v));
+    if (invalid != null) {
+      return {
+        expected: "KEY=VALUE",
+        message: `Invalid environment variable: '${invalid}'.`,
+      };
+    }
+    return "ok";
+  },
+});
+
+const InspectorOpt = defineOption({
+  name: "inspector",
+  type: "boolean",
+  description: "Open the GTK inspector along with the app.",
+});
+
+const DebuggerOpt = defineOption({
+  name: "debugger",
+  type: "boolean",
+  description:
+    "Start the app with the gjs debugger (gjs -d), the debugger prompt is attached to this terminal.",
+});
+
+const RestartOnCrashOpt = defineOption({
+  name: "restart-on-crash",
+  type: "boolean",
+  description:
+    "In watch mode, start the app again when it crashes, unless it keeps crashing right after starting. By default it's started again after the next change.",
+});
+
+const ValgrindOpt = defineOption({
+  name: "valgrind",
+  type: "boolean",
+  description: "Run the app under valgrind, to find memory leaks.",
+});
+
+/**
+ * Commands that wrap gjs, along with the environment they need.
+ */
+const WRAPPER_PRESETS = {
+  valgrind: {
+    args: ["valgrind", "--leak-check=full", "--num-callers=30"],
+    env: {
+      G_SLICE: "always-malloc",
+      G_DEBUG: "gc-friendly",
+    },
+  },
+} satisfies Record<string, { args: string[]; env: Record<string, string> }>;
+
 export class StartProgram extends BuildProgram {
   readonly type = "start";
 
+  private useMeson: Option<"boolean", false>;
+  private hot: Option<"boolean", true>;
+  private env: Option<["string"], false>;
+  private inspector: Option<"boolean", false>;
+  private debugger: Option<"boolean", false>;
+  private valgrind: Option<"boolean", false>;
+  private restartOnCrash: Option<"boolean", false>;
+  /** Arguments passed to the started app. */
+  appArgs = getPassthroughArgs();
+  private hotUpdate?: HotUpdate;
+  private hotUpdateCount = 0;
+
+  constructor(init: CommandInitPhase) {
+    super(init);
+    this.useMeson = init.option(MesonRunnerOpt);
+    this.hot = init.option(HotOpt);
+    this.env = init.option(EnvOpt);
+    this.inspector = init.option(InspectorOpt);
+    this.debugger = init.option(DebuggerOpt);
+    this.valgrind = init.option(ValgrindOpt);
+    this.restartOnCrash = init.option(RestartOnCrashOpt);
+  }
+
+  /**
+   * Hot reload is only possible with the dev runner, the bundle
+   * must be started directly by gjs with the development build
+   * of React.
+   */
+  get hotReload() {
+    return this.watchMode
+      && this.isDev
+      && !this.useMeson.value
+      && this.hot.value;
+  }
+
+  /** The debugger prompt would be overwritten by the status line. */
+  get showStatusLine() {
+    return super.showStatusLine && !this.debugger.value;
+  }
+
+  protected defineBuildArgs(init: CommandInitPhase): BuildArgs {
+    return {
+      clean: init.option(CleanOpt),
+      notify: init.option(NotifyOpt),
+    };
+  }
+
   protected getBuildDirPath() {
     return path.resolve(this.cwd, this.config.outDir, ".build");
   }
 
+  protected getSchemasDirPath() {
+    return path.resolve(this.getBuildDirPath(), "_schemas");
+  }
+
+  /**
+   * Directory used by the dev runner, for the bootstrap file and
+   * the compiled resources.
+   */
+  protected getDevDirPath() {
+    return path.resolve(this.getBuildDirPath(), "_dev");
+  }
+
+  /**
+   * Unix socket on which the running app listens for hot updates.
+   * It's not placed in the build directory, since socket paths
+   * can't be longer than ~100 characters.
+   */
+  protected getHotSocketPath() {
+    return path.join(os.tmpdir(), `react-gtk-hot-${process.pid}.sock`);
+  }
+
+  protected getStartCommand(): StartCommand {
+    if (this.useMeson.value) {
+      return {
+        command: "meson",
+        args: ["compile", "-C", "_build", "run"],
+      };
+    }
+
+    const gjsArgs = [
+      "gjs",
+      ...(this.debugger.value ? ["-d"] : []),
+      "-m",
+      path.join("_dev", "bootstrap.js"),
+      ...this.appArgs,
+    ];
+
+    const [command, ...args] = this.valgrind.value
+      ? [...WRAPPER_PRESETS.valgrind.args, ...gjsArgs]
+      : gjsArgs;
+
+    return {
+      command: command!,
+      args,
+      interactive: this.debugger.value,
+    };
+  }
+
+  /**
+   * Environment variables that are passed to the started app.
+   */
+  protected getAppEnv(): Record<string, string> {
+    const env: Record<string, string> = {};
+
+    if (this.config.settings) {
+      // Schemas are not installed when running the app from the build
+      // directory, GSettings must be pointed at the compiled ones
+      env.GSETTINGS_SCHEMA_DIR = this.getSchemasDirPath();
+    }
+
+    if (this.hotReload) {
+      env.REACT_GTK_HOT_SOCKET = this.getHotSocketPath();
+    }
+
+    if (this.inspector.value) {
+      env.GTK_DEBUG = "interactive";
+    }
+
+    if (this.valgrind.value) {
+      Object.assign(env, WRAPPER_PRESETS.valgrind.env);
+    }
+
+    for (const variable of this.env.value ?? []) {
+      const separatorIdx = variable.indexOf("=");
+      env[variable.slice(0, separatorIdx)] = variable.slice(separatorIdx + 1);
+    }
+
+    return env;
+  }
+
   additionalPlugins(): AdditionalPlugins {
     return {
+      first: this.hotReload
+        ? [
+          hotReloadPlugin(this, (update) => {
+            this.hotUpdate = update;
+          }),
+        ]
+        : [],
       before: [
         startAppPlugin({
           getCwd: () => this.getBuildDirPath(),
-          beforeStart: this.beforeStart.bind(this),
+          beforeEachStart: this.beforeEachStart.bind(this),
+          getEnv: this.getAppEnv.bind(this),
+          getCommand: this.getStartCommand.bind(this),
+          tryHotUpdate: this.hotReload
+            ? this.tryHotUpdate.bind(this)
+            : undefined,
+          restartOnCrash: this.restartOnCrash.value,
           program: this,
         }),
       ],
     };
   }
 
-  protected async beforeStart() {
+  /**
+   * Sends the rebuilt bundle to the running app. Returns `false` if
+   * the app must be restarted instead, either because files other
+   * than source modules have changed, or because the app could not
+   * apply the update.
+   */
+  protected async tryHotUpdate(result: esbuild.BuildResult) {
+    const update = this.hotUpdate;
+    this.hotUpdate = undefined;
+
+    if (result.errors.length > 0 || !update) return false;
+
+    if (update.changedAssets.length > 0) {
+      Output.print(html`
+        <span color="yellow">
+          ${update.changedAssets.join(", ")} changed, restarting...
+        </span>
+      `);
+      return false;
+    }
+
+    if (update.changedModules.length === 0) return false;
+
+    // Each version is imported from a new path, gjs would return the
+    // cached module otherwise
+    const bundlePath = path.resolve(
+      this.getDevDirPath(),
+      "hot",
+      `main-${++this.hotUpdateCount}.js`,
+    );
+
+    await fs.mkdir(path.dirname(bundlePath), { recursive: true });
+    await fs.copyFile(
+      path.resolve(this.getBuildDirPath(), "src", "main.js"),
+      bundlePath,
+    );
+
+    try {
+      const response = await sendHotUpdate(this.getHotSocketPath(), {
+        bundle: bundlePath,
+        changedModules: update.changedModules,
+      });
+
+      if (response.type === "updated") {
+        Output.print(html`
+          <span color="lightGreen">
+            Updated ${update.changedModules.join(", ")}.
+          </span>
+        `);
+        return true;
+      }
+
+      Output.print(html`
+        <span color="yellow">
+          Hot update not possible, ${response.reason}, restarting...
+        </span>
+      `);
+    } catch (e) {
+      Output.print(html`
+        <span color="yellow">
+          Hot update failed (${String(e)}), restarting...
+        </span>
+      `);
+    }
+
+    return false;
+  }
+
+  /**
+   * Compiles the gresource bundles straight from the generated
+   * resource definitions, and writes the bootstrap file that loads
+   * them and the bundle. That's all that is needed to run the app
+   * with gjs, without configuring and compiling the meson project.
+   */
+  protected async prepareDevRunner(context: PackagingContext) {
+    const buildDirPath = this.getBuildDirPath();
+    const devDirPath = this.getDevDirPath();
+    const pkgDataDirPath = path.resolve(devDirPath, "share", context.appID);
+
+    await fs.mkdir(pkgDataDirPath, { recursive: true });
+
+    const bundles = [
+      ["src", `${context.appID}.src.gresource.xml.in`],
+      ["data", `${context.appID}.data.gresource.xml`],
+    ] as const;
+
+    for (const [dir, xmlFile] of bundles) {
+      await new Command("glib-compile-resources", [
+        `--sourcedir=${path.resolve(buildDirPath, dir)}`,
+        `--target=${
+          path.resolve(pkgDataDirPath, `${context.appID}.${dir}.gresource`)
+        }`,
+        path.resolve(buildDirPath, dir, xmlFile),
+      ], {
+        cwd: buildDirPath,
+      }).run();
+    }
+
+    await this.write(
+      getDevBootstrap({
+        appID: context.appID,
+        version: context.appVersion,
+        prefix: devDirPath,
+        mainPath: "../src/main.js",
+      }),
+      devDirPath,
+      "bootstrap.js",
+    );
+  }
+
+  protected async beforeEachStart() {
     const appName = this.appName;
     const buildDirPath = this.getBuildDirPath();
 
-    await this.prepareBuildFiles(appName, buildDirPath);
+    // Prepared on every restart, to include the resources imported
+    // since the previous build
+    const context = await this.prepareBuildFiles(appName, buildDirPath);
 
     if (this.config.beforeBuild) {
       await this.config.beforeBuild(buildDirPath);
     }
 
-    await new Command("meson", ["setup", "_build"], {
-      cwd: buildDirPath,
-    }).run();
+    if (this.useMeson.value) {
+      await this.setupMeson(buildDirPath, []);
+    } else {
+      await this.prepareDevRunner(context);
+    }
+
+    if (this.hotReload) {
+      // bundles of the hot updates applied to the previous instance
+      await fs.rm(path.resolve(this.getDevDirPath(), "hot"), {
+        recursive: true,
+        force: true,
+      });
+      await fs.rm(this.getHotSocketPath(), { force: true });
+    }
+
+    if (this.config.settings) {
+      const schemasDirPath = this.getSchemasDirPath();
+      await fs.mkdir(schemasDirPath, { recursive: true });
+      await new Command("glib-compile-schemas", [
+        "--strict",
+        `--targetdir=${schemasDirPath}`,
+        path.resolve(buildDirPath, "data"),
+      ], {
+        cwd: buildDirPath,
+      }).run();
+    }
   }
 
   /**
    * @internal
    */
   async main() {
-    if (this.watchMode) {
+    if (
+      this.useMeson.value
+      && (this.appArgs.length > 0
+        || this.debugger.value
+        || this.valgrind.value)
+    ) {
+      throw new Error(
+        "App arguments, --debugger and --valgrind are not supported when running the app through meson.",
+      );
+    }
+
+    if (this.hotReload) {
+      Output.print(html`
+        <span color="lightBlue"> Starting in watch mode with hot reload... </span>
+      `);
+    } else if (this.watchMode) {
       Output.print(html`
         <span color="lightBlue"> Starting in watch mode... </span>
       `);
@@ -61,12 +437,17 @@ export class StartProgram extends BuildProgram {
 
     this.resources = new AppResources(this.appID);
 
-    if (existsSync(buildDirPath)) await rimraf(buildDirPath, {});
+    if (this.args.clean?.value && existsSync(buildDirPath)) {
+      await rimraf(buildDirPath, {});
+    }
 
     await this.esbuildCtx.init(
       createBuildOptions(this, {
         stdin: {
-          contents: getEntrypoint(this),
+          contents: getEntrypoint(this, {
+            hotReload: this.hotReload,
+            liveCss: this.watchMode,
+          }),
           loader: "js",
           resolveDir: this.cwd,
         },
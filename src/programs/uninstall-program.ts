@@ -0,0 +1,81 @@
+import { existsSync } from "fs";
+import path from "path";
+import { html, Output } from "termx-markup";
+import { Command } from "../utils/command";
+import type { AdditionalPlugins } from "../utils/get-plugins";
+import {
+  readInstallManifest,
+  removeInstallManifest,
+  removeInstalledFiles,
+} from "../utils/install-manifest";
+import { Program } from "./base";
+
+export class UninstallProgram extends Program {
+  readonly type = "uninstall";
+
+  additionalPlugins(): AdditionalPlugins {
+    return {};
+  }
+
+  /**
+   * Runs a command updating one of the system caches, failures are
+   * only reported since the files are already removed at this point.
+   */
+  private async updateCache(command: string, args: string[], dir: string) {
+    if (!existsSync(dir)) return;
+
+    try {
+      await new Command(command, [...args, dir], {}).run();
+    } catch (e) {
+      Output.print(html`
+        <span>
+          <span color="yellow">WARN:</span>
+          <span>Failed to run '${command}' on ${dir}.</span>
+        </span>
+      `);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  async main() {
+    const appID = this.appID;
+    const manifest = await readInstallManifest(appID);
+
+    if (!manifest) {
+      throw new Error(
+        `Application '${appID}' is not installed, no install manifest was found.`,
+      );
+    }
+
+    Output.print(html`
+      <span color="lightBlue">
+        Uninstalling ${appID} from ${manifest.prefix}...
+      </span>
+    `);
+
+    await removeInstalledFiles(appID, manifest.files);
+
+    const datadir = path.resolve(manifest.prefix, "share");
+
+    await this.updateCache(
+      "glib-compile-schemas",
+      [],
+      path.resolve(datadir, "glib-2.0", "schemas"),
+    );
+    await this.updateCache(
+      "gtk-update-icon-cache",
+      ["-qtf"],
+      path.resolve(datadir, "icons", "hicolor"),
+    );
+
+    await removeInstallManifest(appID);
+
+    Output.print(html`
+      <span color="lightGreen">
+        Removed ${manifest.files.length} files.
+      </span>
+    `);
+  }
+}
@@ -927,6 +927,10 @@ registerGlobal("__console_proxy", () => {
       return StacktraceResolver.mapStackTrace(stackTrace);
     },
 
+    resolveSourcePath(filePath: string) {
+      return StacktraceResolver.resolveSourcePath(filePath);
+    },
+
     formatStackTrace(stackTrace: string, indent?: number) {
       let fmtd = stackTraceCyan(stackTrace);
       if (indent != null) {
@@ -974,6 +978,13 @@ registerGlobal("__console_proxy", () => {
       }
     }
 
+    static resolveSourcePath(filePath: string) {
+      if (filePath.startsWith("./") && StacktraceResolver.map) {
+        return `${StacktraceResolver.map.wd}/${filePath.substring(2)}`;
+      }
+      return filePath;
+    }
+
     static mapStackTrace(stack: string) {
       if (!StacktraceResolver.sourcmapReader) {
         return stack;
@@ -982,9 +993,10 @@ registerGlobal("__console_proxy", () => {
       const lines = stack.split(EOL);
       for (let i = 0; i < lines.length; i++) {
         const line = lines[i]!;
-        const match = line.match(/main.js:\d+:\d+$/);
+        // hot updates are loaded from main-<n>.js copies of the bundle
+        const match = line.match(/main(-\d+)?\.js:\d+:\d+$/);
         if (match) {
-          const lineCol = line.split("/main.js:").pop()!;
+          const lineCol = line.split(/\/main(?:-\d+)?\.js:/).pop()!;
           const [lineNo, colNo] = lineCol.split(":") as [string, string];
           const l = Number(lineNo) - this.map.rowOffset;
           const c = Number(colNo) - this.map.colOffset;
@@ -0,0 +1,302 @@
+import Gio from "gi://Gio?version=2.0";
+import GLib from "gi://GLib?version=2.0";
+import RefreshRuntime from "react-refresh/runtime";
+import { registerGlobal } from "../helpers/register-global";
+
+declare const __console_proxy: Console;
+
+type HotUpdateMessage = {
+  type: "update";
+  /** Absolute path to the new version of the bundle. */
+  bundle: string;
+  changedModules: string[];
+};
+
+type HotUpdateResponse =
+  | { type: "updated" }
+  | { type: "restart"; reason: string };
+
+type ReactRenderer = {
+  scheduleRefresh?: Function;
+  setRefreshHandler?: Function;
+};
+
+type DevtoolsHook = {
+  inject(renderer: ReactRenderer): number;
+};
+
+declare global {
+  /** Set by the React Fast Refresh runtime, read by React. */
+  var __REACT_DEVTOOLS_GLOBAL_HOOK__: DevtoolsHook | undefined;
+}
+
+/**
+ * Hooks of React itself, the ones called by a component are read
+ * from its source.
+ */
+const REACT_HOOKS = new Set([
+  "useActionState",
+  "useCallback",
+  "useContext",
+  "useDebugValue",
+  "useDeferredValue",
+  "useEffect",
+  "useId",
+  "useImperativeHandle",
+  "useInsertionEffect",
+  "useLayoutEffect",
+  "useMemo",
+  "useOptimistic",
+  "useReducer",
+  "useRef",
+  "useState",
+  "useSyncExternalStore",
+  "useTransition",
+]);
+
+/**
+ * Runtime of the hot reload, only included in the bundle by the
+ * `start` command in watch mode.
+ *
+ * It listens on the unix socket given by the CLI for new versions
+ * of the bundle. A new version is imported, which re-evaluates
+ * all the source modules of the project (dependencies are shared
+ * between the versions) and then the React Fast Refresh runtime
+ * re-renders the changed components. When that's not possible the
+ * CLI is asked to restart the app instead.
+ *
+ * The modules are not compiled with the React Fast Refresh
+ * transform, the components and the hooks they call are found in
+ * their source instead. This is less precise, so whenever the state
+ * of a changed component might not match its new hooks, the
+ * component is remounted and its state is lost:
+ *
+ * - components calling custom hooks, the hooks those call are not
+ *   visible in the source of the component,
+ * - components wrapped in `memo` or `forwardRef`, their render
+ *   function is not inspected.
+ *
+ * Components that are not declared at the top level of a module,
+ * e.g. the ones wrapped by higher-order components inline, are not
+ * found at all, they are remounted as new components.
+ */
+(() => {
+  const EOL = "\n";
+  const socketPath = GLib.getenv("REACT_GTK_HOT_SOCKET");
+
+  if (!socketPath) return;
+
+  RefreshRuntime.injectIntoGlobalHook(globalThis);
+
+  const hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+  let refreshableRenderers = 0;
+
+  const inject = hook.inject;
+  hook.inject = function(renderer) {
+    if (
+      typeof renderer.scheduleRefresh === "function"
+      && typeof renderer.setRefreshHandler === "function"
+    ) {
+      refreshableRenderers++;
+    }
+    return inject.call(this, renderer);
+  };
+
+  /** Whether the module can be updated without a restart. */
+  const boundaries = new Map<string, boolean>();
+  const patchedRenderers = new WeakSet<Function>();
+  let isUpdating = false;
+  /** Modules changed by the update that is being applied. */
+  let updatedModules = new Set<string>();
+
+  /**
+   * Sets the signature by which React decides if the state of the
+   * component can be kept, the state of the components of changed
+   * modules is reset when their hooks can't be compared.
+   */
+  const setSignature = (type: unknown, isChanged: boolean) => {
+    const hooks = typeof type === "function"
+      ? type.toString().match(/\buse[A-Z]\w*/g) ?? []
+      : undefined;
+
+    const forceReset = isChanged
+      && (!hooks || hooks.some((name) => !REACT_HOOKS.has(name)));
+
+    RefreshRuntime.setSignature(type, hooks?.join(",") ?? "", forceReset);
+  };
+
+  const registerComponent = (type: unknown, id: string, isChanged: boolean) => {
+    if (!RefreshRuntime.isLikelyComponentType(type)) return false;
+
+    RefreshRuntime.register(type, id);
+    setSignature(type, isChanged);
+    return true;
+  };
+
+  /**
+   * Starting the renderer again would open a second window, when
+   * the bundle is evaluated during an update the already running
+   * renderer is refreshed instead.
+   */
+  const patchRenderer = (Renderer: unknown) => {
+    if (typeof Renderer !== "function" || patchedRenderers.has(Renderer)) {
+      return;
+    }
+
+    const start = Renderer.prototype?.start;
+    if (typeof start !== "function") return;
+
+    patchedRenderers.add(Renderer);
+    Renderer.prototype.start = function(...args: unknown[]) {
+      if (isUpdating) return this;
+      return start.apply(this, args);
+    };
+  };
+
+  registerGlobal("__react_gtk_hot__", () => ({
+    registerModule(
+      id: string,
+      exports: Record<string, unknown>,
+      locals: Record<string, unknown>,
+    ) {
+      const isChanged = isUpdating && updatedModules.has(id);
+      let hasExports = false;
+      let onlyComponents = true;
+
+      for (const [name, value] of Object.entries(exports)) {
+        hasExports = true;
+        if (!registerComponent(value, `${id} %exports% ${name}`, isChanged)) {
+          onlyComponents = false;
+        }
+      }
+
+      for (const [name, value] of Object.entries(locals)) {
+        if (value !== undefined && !Object.values(exports).includes(value)) {
+          registerComponent(value, `${id} ${name}`, isChanged);
+        }
+      }
+
+      // Modules exporting anything else than components must be
+      // re-evaluated along with their importers, which is not
+      // possible, same as for modules without exports
+      boundaries.set(id, hasExports && onlyComponents);
+    },
+    onModuleShared(exports: Record<string, unknown> | undefined) {
+      patchRenderer(exports?.Renderer);
+    },
+  }));
+
+  /**
+   * Returns why the changed modules can't be updated in place, if
+   * they can't.
+   */
+  const getRestartReason = (changedModules: string[]) => {
+    const notLoaded = changedModules.filter((id) => !boundaries.has(id));
+
+    if (notLoaded.length > 0) {
+      return `${notLoaded.join(", ")} ${
+        notLoaded.length === 1 ? "is" : "are"
+      } not loaded by the app yet`;
+    }
+
+    const notAccepted = changedModules.filter((id) => !boundaries.get(id));
+
+    if (notAccepted.length > 0) {
+      return `${notAccepted.join(", ")} exports values other than components`;
+    }
+  };
+
+  const applyUpdate = async (
+    message: HotUpdateMessage,
+  ): Promise<HotUpdateResponse> => {
+    // Evaluating the new bundle runs the side effects of the source
+    // modules again, so whether the update can be applied is decided
+    // beforehand, from the modules registered by the previous one.
+    const reason = getRestartReason(message.changedModules);
+
+    if (reason) {
+      return { type: "restart", reason };
+    }
+
+    if (refreshableRenderers === 0) {
+      return {
+        type: "restart",
+        reason: "React does not support refreshing in this build",
+      };
+    }
+
+    // the bundle is wrapped in the main function, the same as the
+    // one called by the package runner when the app starts
+    const bundle = await import(`file://${message.bundle}`);
+
+    isUpdating = true;
+    updatedModules = new Set(message.changedModules);
+    try {
+      bundle.main();
+    } finally {
+      isUpdating = false;
+    }
+
+    // a changed module could have started exporting other values,
+    // then the components it exports can't be refreshed either
+    const newReason = getRestartReason(message.changedModules);
+
+    if (newReason) {
+      return { type: "restart", reason: newReason };
+    }
+
+    RefreshRuntime.performReactRefresh();
+
+    return { type: "updated" };
+  };
+
+  const handleConnection = (connection: Gio.SocketConnection) => {
+    const input = new Gio.DataInputStream({
+      base_stream: connection.get_input_stream(),
+    });
+    const output = connection.get_output_stream();
+
+    const respond = (response: HotUpdateResponse) => {
+      output.write_all(
+        new TextEncoder().encode(JSON.stringify(response) + EOL),
+        null,
+      );
+      connection.close(null);
+    };
+
+    input.read_line_async(GLib.PRIORITY_DEFAULT, null, (_, result) => {
+      const [line] = input.read_line_finish_utf8(result);
+
+      if (!line) {
+        connection.close(null);
+        return;
+      }
+
+      applyUpdate(JSON.parse(line))
+        .then(respond)
+        .catch((e) => {
+          __console_proxy.error(e);
+          respond({ type: "restart", reason: "the update failed" });
+        });
+    });
+  };
+
+  if (GLib.file_test(socketPath, GLib.FileTest.EXISTS)) {
+    Gio.File.new_for_path(socketPath).delete(null);
+  }
+
+  const service = new Gio.SocketService();
+  service.add_address(
+    Gio.UnixSocketAddress.new(socketPath),
+    Gio.SocketType.STREAM,
+    Gio.SocketProtocol.DEFAULT,
+    null,
+  );
+  service.connect("incoming", (_, connection) => {
+    handleConnection(connection);
+    return true;
+  });
+  service.start();
+
+  registerGlobal("__react_gtk_hot_service__", () => service);
+})();
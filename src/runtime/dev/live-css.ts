@@ -0,0 +1,131 @@
+import Gio from "gi://Gio?version=2.0";
+import GLib from "gi://GLib?version=2.0";
+import type Gtk3 from "gi://Gtk?version=3.0";
+import type Gtk4 from "gi://Gtk?version=4.0";
+import { registerGlobal } from "../helpers/register-global";
+
+declare const __console_proxy: Console;
+
+type CssProvider = Gtk3.CssProvider | Gtk4.CssProvider;
+type CssSection = Gtk3.CssSection | Gtk4.CssSection;
+
+/**
+ * Global of the renderer holding the stylesheets of the app,
+ * `addStyles` loads the given CSS into a new provider registered
+ * for the app, and returns that provider.
+ */
+declare const applicationCss: {
+  addStyles(css: string): CssProvider;
+};
+
+type Stylesheet = {
+  provider: CssProvider;
+  monitor: Gio.FileMonitor;
+};
+
+/**
+ * Runtime of the live CSS injection, only included in the bundle by
+ * the `start` command in watch mode.
+ *
+ * Each imported stylesheet is added through `applicationCss` and
+ * the file is watched for changes. When it changes the data of its
+ * provider is replaced in place, without rebuilding or restarting
+ * the app. GTK parse errors are printed with the file, line and
+ * column.
+ */
+(() => {
+  const EOL = "\n";
+
+  const stylesheets = new Map<string, Stylesheet>();
+
+  // Gtk is accessed only once a stylesheet is loaded, at that point
+  // the renderer has already imported the right version
+  const isGtk4 = (provider: CssProvider): provider is Gtk4.CssProvider =>
+    imports.gi.Gtk.get_major_version() >= 4;
+
+  const printParsingError = (
+    filePath: string,
+    section: CssSection,
+    error: GLib.Error,
+  ) => {
+    let line: number;
+    let column: number;
+
+    if ("get_start_location" in section) {
+      const location = section.get_start_location();
+      line = location.lines;
+      column = location.line_chars;
+    } else {
+      line = section.get_start_line();
+      column = section.get_start_position();
+    }
+
+    __console_proxy.error(
+      `CSS error in ${filePath}:${line + 1}:${column + 1}${EOL}  ${error.message}`,
+    );
+  };
+
+  const loadCss = (provider: CssProvider, css: string) => {
+    try {
+      if (isGtk4(provider)) {
+        provider.load_from_data(css, -1);
+      } else {
+        provider.load_from_data(new TextEncoder().encode(css));
+      }
+    } catch {
+      // GTK 3 throws on the first error, it's already reported by
+      // the parsing-error handler
+    }
+  };
+
+  const readFile = (filePath: string) => {
+    const [, contents] = GLib.file_get_contents(filePath);
+    return new TextDecoder().decode(contents);
+  };
+
+  registerGlobal("__react_gtk_live_css__", () => ({
+    /**
+     * Loads the stylesheet from the disk, if it was already loaded
+     * by a previous version of the bundle its provider is reused.
+     */
+    load(filePath: string) {
+      const existing = stylesheets.get(filePath);
+
+      if (existing) {
+        loadCss(existing.provider, readFile(filePath));
+        return;
+      }
+
+      // the provider is created empty, so that the errors of the
+      // stylesheet are reported by the handler
+      const provider = applicationCss.addStyles("");
+      const onParsingError = (
+        _: CssProvider,
+        section: CssSection,
+        error: GLib.Error,
+      ) => {
+        printParsingError(filePath, section, error);
+      };
+
+      provider.connect("parsing-error", onParsingError);
+      loadCss(provider, readFile(filePath));
+
+      const monitor = Gio.File.new_for_path(filePath).monitor_file(
+        Gio.FileMonitorFlags.NONE,
+        null,
+      );
+      monitor.connect("changed", (_, __, ___, event) => {
+        if (event !== Gio.FileMonitorEvent.CHANGES_DONE_HINT) return;
+
+        try {
+          loadCss(provider, readFile(filePath));
+          __console_proxy.info(`Reloaded ${filePath}`);
+        } catch (e) {
+          __console_proxy.error(e);
+        }
+      });
+
+      stylesheets.set(filePath, { provider, monitor });
+    },
+  }));
+})();
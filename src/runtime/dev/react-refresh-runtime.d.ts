@@ -0,0 +1,12 @@
+declare module "react-refresh/runtime" {
+  export function injectIntoGlobalHook(globalObject: typeof globalThis): void;
+  export function register(type: unknown, id: string): void;
+  export function setSignature(
+    type: unknown,
+    key: string,
+    forceReset?: boolean,
+    getCustomHooks?: () => unknown[],
+  ): void;
+  export function isLikelyComponentType(type: unknown): boolean;
+  export function performReactRefresh(): unknown;
+}
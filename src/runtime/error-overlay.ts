@@ -0,0 +1,281 @@
+import GLib from "gi://GLib?version=2.0";
+import type Gtk4 from "gi://Gtk?version=4.0";
+import { registerGlobal } from "./helpers/register-global";
+
+declare const __console_proxy: Console;
+
+/**
+ * The widgets are typed as the GTK 4 ones, like `imports.gi.Gtk`,
+ * these are the methods used in their place in GTK 3.
+ */
+type Gtk3Widget = Gtk4.Widget & {
+  pack_start(
+    child: Gtk4.Widget,
+    expand: boolean,
+    fill: boolean,
+    padding: number,
+  ): void;
+  add(child: Gtk4.Widget): void;
+  show_all(): void;
+};
+
+registerGlobal("__error_overlay", () => {
+  const EOL = "\n";
+  const CODE_FRAME_LINES = 3;
+
+  // Gtk is accessed only once an error is shown, at that point the
+  // bundle has already imported the right version
+  const getGtk = () => imports.gi.Gtk;
+
+  const isGtk3 = (widget: Gtk4.Widget): widget is Gtk3Widget =>
+    getGtk().get_major_version() < 4;
+
+  function append(box: Gtk4.Box, child: Gtk4.Widget, expand = false) {
+    if (isGtk3(box)) {
+      box.pack_start(child, expand, true, 0);
+    } else {
+      child.set_vexpand(expand);
+      box.append(child);
+    }
+  }
+
+  function setChild(
+    container: Gtk4.Window | Gtk4.ScrolledWindow,
+    child: Gtk4.Widget,
+  ) {
+    if (isGtk3(container)) {
+      container.add(child);
+    } else {
+      container.set_child(child);
+    }
+  }
+
+  function present(window: Gtk4.Window) {
+    if (isGtk3(window)) {
+      window.show_all();
+    }
+    window.present();
+  }
+
+  function escapeMarkup(text: string) {
+    return GLib.markup_escape_text(text, -1);
+  }
+
+  function getMessage(error: unknown) {
+    if (error instanceof Error) {
+      return `${error.name}: ${error.message}`;
+    }
+    return String(error);
+  }
+
+  function getStack(error: unknown) {
+    if (error instanceof Error && error.stack) {
+      return __console_proxy.mapStackTrace(error.stack.trim());
+    }
+    return "";
+  }
+
+  /**
+   * Returns the lines surrounding the first location of the stack
+   * trace that points to a file of the project.
+   */
+  function getCodeFrame(stack: string) {
+    for (const line of stack.split(EOL)) {
+      const match = line.match(/(\.\/[^\s:]+):(\d+):(\d+)$/);
+      if (!match || match[1]!.includes("/node_modules/")) continue;
+
+      const filePath = __console_proxy.resolveSourcePath(match[1]!);
+      const lineNo = Number(match[2]);
+      const column = Number(match[3]);
+
+      try {
+        const [, contents] = GLib.file_get_contents(filePath);
+        const lines = new TextDecoder().decode(contents).split(EOL);
+        const first = Math.max(1, lineNo - CODE_FRAME_LINES);
+        const last = Math.min(lines.length, lineNo + CODE_FRAME_LINES);
+        const gutterWidth = String(last).length;
+
+        const frame = [`${match[1]}:${lineNo}:${column}`, ""];
+        for (let i = first; i <= last; i++) {
+          const marker = i === lineNo ? ">" : " ";
+          const gutter = String(i).padStart(gutterWidth);
+          frame.push(`${marker} ${gutter} | ${lines[i - 1]}`);
+          if (i === lineNo) {
+            frame.push(
+              `  ${" ".repeat(gutterWidth)} | ${" ".repeat(column - 1)}^`,
+            );
+          }
+        }
+        return frame.join(EOL);
+      } catch {
+        return;
+      }
+    }
+  }
+
+  function createLabel(text: string, markup = false, wrap = true) {
+    const Gtk = getGtk();
+    const label = new Gtk.Label({
+      xalign: 0,
+      selectable: true,
+      wrap,
+    });
+    if (markup) {
+      label.set_markup(text);
+    } else {
+      label.set_text(text);
+    }
+    return label;
+  }
+
+  function createCodeView(text: string) {
+    const Gtk = getGtk();
+    const label = createLabel(`<tt>${escapeMarkup(text)}</tt>`, true, false);
+    label.set_yalign(0);
+
+    const scrolled = new Gtk.ScrolledWindow();
+    scrolled.set_policy(Gtk.PolicyType.AUTOMATIC, Gtk.PolicyType.AUTOMATIC);
+    setChild(scrolled, label);
+    return scrolled;
+  }
+
+  class DevOverlay {
+    private static window?: Gtk4.Window;
+
+    static show(error: unknown, origin?: string) {
+      const Gtk = getGtk();
+
+      DevOverlay.window?.destroy();
+
+      const window = new Gtk.Window({
+        title: "Unhandled error",
+        default_width: 800,
+        default_height: 600,
+      });
+      DevOverlay.window = window;
+
+      window.connect("destroy", () => {
+        if (DevOverlay.window === window) DevOverlay.window = undefined;
+      });
+
+      const box = new Gtk.Box({
+        orientation: Gtk.Orientation.VERTICAL,
+        spacing: 12,
+        margin_top: 16,
+        margin_bottom: 16,
+        margin_start: 16,
+        margin_end: 16,
+      });
+
+      append(
+        box,
+        createLabel(
+          `<span size="large" weight="bold" foreground="#e01b24">${
+            escapeMarkup(getMessage(error))
+          }</span>`,
+          true,
+        ),
+      );
+
+      if (origin) {
+        append(box, createLabel(`The error occurred in ${origin}.`));
+      }
+
+      const stack = getStack(error);
+      const codeFrame = getCodeFrame(stack);
+
+      if (codeFrame) {
+        append(box, createCodeView(codeFrame));
+      }
+
+      if (stack) {
+        append(box, createCodeView(stack), true);
+      }
+
+      const buttons = new Gtk.Box({
+        orientation: Gtk.Orientation.HORIZONTAL,
+        spacing: 8,
+        halign: Gtk.Align.END,
+      });
+
+      const dismissButton = new Gtk.Button({ label: "Dismiss" });
+      dismissButton.connect("clicked", () => window.destroy());
+      append(buttons, dismissButton);
+
+      // The exit code is given by the start command, which restarts
+      // the app when it exits with it
+      const reloadExitCode = GLib.getenv("REACT_GTK_RELOAD_EXIT_CODE");
+      if (reloadExitCode) {
+        const reloadButton = new Gtk.Button({ label: "Reload" });
+        reloadButton.connect("clicked", () => {
+          imports.system.exit(Number(reloadExitCode));
+        });
+        append(buttons, reloadButton);
+      }
+
+      append(box, buttons);
+      setChild(window, box);
+      present(window);
+    }
+  }
+
+  class ErrorDialog {
+    private static dialog?: Gtk4.MessageDialog;
+
+    static show(error: unknown) {
+      const Gtk = getGtk();
+
+      if (ErrorDialog.dialog) return;
+
+      const dialog = new Gtk.MessageDialog({
+        message_type: Gtk.MessageType.ERROR,
+        buttons: Gtk.ButtonsType.CLOSE,
+        text: "Application error",
+        secondary_text: getMessage(error),
+        modal: true,
+      });
+      ErrorDialog.dialog = dialog;
+
+      dialog.connect("response", () => {
+        dialog.destroy();
+        ErrorDialog.dialog = undefined;
+      });
+
+      present(dialog);
+    }
+  }
+
+  const ErrorOverlay = {
+    /**
+     * Shows the error in a window, in development mode along with
+     * the stack trace and the code that threw it, in production
+     * as a simple dialog.
+     */
+    show(error: unknown, origin?: string) {
+      try {
+        if (__MODE__ === "development") {
+          DevOverlay.show(error, origin);
+        } else {
+          ErrorDialog.show(error);
+        }
+      } catch (e) {
+        __console_proxy.error("Failed to show the error window:", e);
+      }
+    },
+  };
+
+  // React reports the errors thrown during render with this function,
+  // when it's available
+  if (!("reportError" in globalThis)) {
+    Object.defineProperty(globalThis, "reportError", {
+      value: (error: unknown) => {
+        __console_proxy.error(error);
+        ErrorOverlay.show(error, "a component render");
+      },
+      writable: true,
+      configurable: true,
+    });
+  }
+
+  return ErrorOverlay;
+});
@@ -1,6 +1,9 @@
 import { registerGlobal } from "./helpers/register-global";
 
 declare const __console_proxy: Console;
+declare const __error_overlay: {
+  show(error: unknown, origin?: string): void;
+};
 
 (() => {
   const EOL = "\n";
@@ -16,6 +19,7 @@ declare const __console_proxy: Console;
       e,
       `${EOL}${EOL}The above error occured in a callback provided to ${type} in here:${EOL}${stackFmtd}`,
     );
+    __error_overlay.show(e, `a callback provided to ${type}`);
   }
 
   function runWithErrorHandler(cb: Function, type: string, stack?: string) {
@@ -0,0 +1,253 @@
+import type esbuild from "esbuild";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+
+export type ModuleReport = {
+  path: string;
+  package: string;
+  bytes: number;
+};
+
+export type PackageReport = {
+  name: string;
+  versions: string[];
+  bytes: number;
+  modules: number;
+};
+
+export type DuplicatePackageReport = {
+  name: string;
+  instances: Array<{ version: string; path: string; bytes: number }>;
+};
+
+export type PolyfillReport = {
+  name: string;
+  importPath: string;
+  /**
+   * Bytes of all the modules that are only included in the bundle
+   * because of this polyfill.
+   */
+  bytes: number;
+};
+
+export type BundleReport = {
+  outfile: string;
+  totalBytes: number;
+  modules: ModuleReport[];
+  packages: PackageReport[];
+  duplicates: DuplicatePackageReport[];
+  polyfills: PolyfillReport[];
+};
+
+/** Package name used for the project's own source files. */
+export const PROJECT_PACKAGE = "(project)";
+/** Package name used for modules from virtual namespaces. */
+export const VIRTUAL_PACKAGE = "(virtual)";
+
+const NODE_MODULES_REGEX = /^(.*node_modules\/(?:@[^/]+\/)?[^/]+)\//;
+
+type PackageInstance = {
+  name: string;
+  version: string;
+  dir: string;
+};
+
+class PackageResolver {
+  private cache = new Map<string, PackageInstance>();
+
+  constructor(private workingDir: string) {}
+
+  resolve(modulePath: string): PackageInstance | undefined {
+    const normalized = modulePath.replace(/\\/g, "/");
+    const match = normalized.match(NODE_MODULES_REGEX);
+
+    if (!match) return;
+
+    const dir = match[1]!;
+    let instance = this.cache.get(dir);
+
+    if (!instance) {
+      const name = dir.slice(dir.lastIndexOf("node_modules/") + 13);
+      let version = "unknown";
+
+      const packageJsonPath = path.resolve(
+        this.workingDir,
+        dir,
+        "package.json",
+      );
+      if (existsSync(packageJsonPath)) {
+        try {
+          const packageJson = JSON.parse(
+            readFileSync(packageJsonPath, "utf-8"),
+          );
+          version = packageJson.version ?? version;
+        } catch {
+          //
+        }
+      }
+
+      instance = { name, version, dir };
+      this.cache.set(dir, instance);
+    }
+
+    return instance;
+  }
+}
+
+const isVirtualModule = (modulePath: string) =>
+  modulePath.startsWith("<") || /^[\w-]+:/.test(modulePath);
+
+/**
+ * Returns all the modules reachable from the given module, without
+ * following the imports of the blocked module.
+ */
+const getReachable = (
+  metafile: esbuild.Metafile,
+  from: string,
+  blocked?: string,
+) => {
+  const visited = new Set<string>();
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.pop()!;
+    if (visited.has(current) || current === blocked) continue;
+    visited.add(current);
+
+    for (const imp of metafile.inputs[current]?.imports ?? []) {
+      if (!imp.external && !visited.has(imp.path)) {
+        queue.push(imp.path);
+      }
+    }
+  }
+
+  return visited;
+};
+
+/**
+ * Creates a report of what the bundle consists of, based on the
+ * esbuild metafile.
+ */
+export const analyzeMetafile = (params: {
+  metafile: esbuild.Metafile;
+  outfile: string;
+  workingDir: string;
+  polyfills: string[];
+}): BundleReport => {
+  const { metafile, workingDir } = params;
+
+  const outputKey = Object.keys(metafile.outputs).find(
+    (key) => path.resolve(workingDir, key) === path.resolve(params.outfile),
+  );
+
+  if (!outputKey) {
+    throw new Error(
+      `Bundle '${params.outfile}' was not found in the esbuild metafile.`,
+    );
+  }
+
+  const output = metafile.outputs[outputKey]!;
+  const resolver = new PackageResolver(workingDir);
+
+  const modules: ModuleReport[] = [];
+  const packages = new Map<string, PackageReport>();
+  const instances = new Map<string, PackageInstance & { bytes: number }>();
+
+  for (const [modulePath, info] of Object.entries(output.inputs)) {
+    const instance = isVirtualModule(modulePath)
+      ? undefined
+      : resolver.resolve(modulePath);
+
+    const packageName = instance?.name
+      ?? (isVirtualModule(modulePath) ? VIRTUAL_PACKAGE : PROJECT_PACKAGE);
+
+    modules.push({
+      path: modulePath,
+      package: packageName,
+      bytes: info.bytesInOutput,
+    });
+
+    let pkg = packages.get(packageName);
+    if (!pkg) {
+      pkg = { name: packageName, versions: [], bytes: 0, modules: 0 };
+      packages.set(packageName, pkg);
+    }
+    pkg.bytes += info.bytesInOutput;
+    pkg.modules += 1;
+
+    if (instance) {
+      if (!pkg.versions.includes(instance.version)) {
+        pkg.versions.push(instance.version);
+      }
+
+      const existing = instances.get(instance.dir);
+      if (existing) {
+        existing.bytes += info.bytesInOutput;
+      } else {
+        instances.set(instance.dir, {
+          ...instance,
+          bytes: info.bytesInOutput,
+        });
+      }
+    }
+  }
+
+  const duplicates: DuplicatePackageReport[] = [...packages.values()]
+    .filter((pkg) => pkg.versions.length > 1)
+    .map((pkg) => ({
+      name: pkg.name,
+      instances: [...instances.values()]
+        .filter((instance) => instance.name === pkg.name)
+        .map((instance) => ({
+          version: instance.version,
+          path: instance.dir,
+          bytes: instance.bytes,
+        })),
+    }));
+
+  const entryPoint = output.entryPoint
+    ?? (metafile.inputs["<stdin>"] ? "<stdin>" : undefined);
+
+  const polyfills: PolyfillReport[] = [];
+
+  if (entryPoint) {
+    const included = getReachable(metafile, entryPoint);
+
+    for (const importPath of params.polyfills) {
+      const suffix = importPath.replace(/^@reactgjs\/react-gtk\//, "");
+      const polyfillModule = Object.keys(metafile.inputs).find((key) =>
+        key.replace(/\\/g, "/").endsWith(suffix)
+      );
+
+      if (!polyfillModule) continue;
+
+      const withoutPolyfill = getReachable(
+        metafile,
+        entryPoint,
+        polyfillModule,
+      );
+
+      let bytes = 0;
+      for (const modulePath of included) {
+        if (!withoutPolyfill.has(modulePath)) {
+          bytes += output.inputs[modulePath]?.bytesInOutput ?? 0;
+        }
+      }
+
+      polyfills.push({
+        name: path.basename(importPath, path.extname(importPath)),
+        importPath,
+        bytes,
+      });
+    }
+  }
+
+  return {
+    outfile: outputKey,
+    totalBytes: output.bytes,
+    modules: modules.sort((a, b) => b.bytes - a.bytes),
+    packages: [...packages.values()].sort((a, b) => b.bytes - a.bytes),
+    duplicates,
+    polyfills,
+  };
+};
@@ -1,17 +1,28 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
 import path from "path";
 import { appIDToPath } from "./app-id-to-path";
-import { generateUniqueName } from "./generate-unique-name";
+import { compareStrings } from "./compare-strings";
 
 class AppResource {
-  private uid = generateUniqueName(8);
+  /**
+   * Hash of the file content, the resource name stays the same
+   * between builds as long as the file doesn't change.
+   */
+  private hash: string;
 
   constructor(
     private origin: string,
     private appID: string,
-  ) {}
+  ) {
+    this.hash = createHash("sha256")
+      .update(readFileSync(this.fullPath))
+      .digest("hex")
+      .slice(0, 8);
+  }
 
   get name() {
-    return this.uid + "-" + path.basename(this.origin);
+    return this.hash + "-" + path.basename(this.origin);
   }
 
   get fullPath() {
@@ -29,14 +40,24 @@ export class AppResources {
   constructor(private appID: string) {}
 
   registerResource(origin: string) {
-    if (this.resources.has(origin)) return this.resources.get(origin)!;
-
+    // Always re-created, since the content (and with it the name)
+    // might have changed since the last build in watch mode
     const resource = new AppResource(origin, this.appID);
     this.resources.set(origin, resource);
     return resource;
   }
 
+  /**
+   * Returns all the registered resources, sorted by name. Identical
+   * files imported from different locations are only returned once.
+   */
   getAll() {
-    return [...this.resources.values()];
+    const byName = new Map<string, AppResource>();
+
+    for (const resource of this.resources.values()) {
+      byName.set(resource.name, resource);
+    }
+
+    return [...byName.values()].sort((a, b) => compareStrings(a.name, b.name));
   }
 }
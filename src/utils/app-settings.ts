@@ -0,0 +1,157 @@
+import type { Config } from "../config/config-type";
+import type { DeepReadonly } from "../programs/base";
+
+export type SettingsConfig = DeepReadonly<NonNullable<Config["settings"]>>;
+
+export type SettingDefinition = SettingsConfig[string];
+
+type SettingValue = SettingDefinition["default"];
+
+const GVARIANT_TYPES = {
+  boolean: "b",
+  string: "s",
+  int: "i",
+  double: "d",
+  "string[]": "as",
+} as const;
+
+const ACCESSORS = {
+  boolean: ["get_boolean", "set_boolean"],
+  string: ["get_string", "set_string"],
+  int: ["get_int", "set_int"],
+  double: ["get_double", "set_double"],
+  "string[]": ["get_strv", "set_strv"],
+  enum: ["get_string", "set_string"],
+} as const;
+
+const errInvalidSetting = (key: string, reason: string): never => {
+  throw new Error(`Invalid setting '${key}': ${reason}`);
+};
+
+const isValueOfType = (def: SettingDefinition, value: SettingValue) => {
+  switch (def.type) {
+    case "boolean":
+      return typeof value === "boolean";
+    case "string":
+    case "enum":
+      return typeof value === "string";
+    case "int":
+      return typeof value === "number" && Number.isInteger(value);
+    case "double":
+      return typeof value === "number";
+    case "string[]":
+      return Array.isArray(value);
+  }
+};
+
+/**
+ * Checks that the settings defined in the config can be compiled
+ * into a valid GSettings schema.
+ */
+export const validateSettings = (settings: SettingsConfig) => {
+  for (const [key, def] of Object.entries(settings)) {
+    // GSettings key name restrictions
+    if (
+      !/^[a-z][a-z0-9-]*$/.test(key) || key.includes("--")
+      || key.endsWith("-") || key.length > 32
+    ) {
+      errInvalidSetting(
+        key,
+        "key names can only contain lowercase letters, numbers and single dashes, must start with a letter and be at most 32 characters long.",
+      );
+    }
+
+    if (!isValueOfType(def, def.default)) {
+      errInvalidSetting(
+        key,
+        `default value ${JSON.stringify(def.default)} is not of type '${def.type}'.`,
+      );
+    }
+
+    if (def.type === "enum") {
+      if (!def.choices || def.choices.length === 0) {
+        errInvalidSetting(key, "enum settings must define the 'choices'.");
+      } else if (!def.choices.includes(def.default as string)) {
+        errInvalidSetting(
+          key,
+          `default value '${def.default}' is not one of the choices.`,
+        );
+      }
+    } else if (def.choices) {
+      errInvalidSetting(key, "'choices' can only be used with enum settings.");
+    }
+
+    if (def.range) {
+      if (def.type !== "int" && def.type !== "double") {
+        errInvalidSetting(
+          key,
+          "'range' can only be used with int and double settings.",
+        );
+      }
+
+      const value = def.default as number;
+      if (
+        def.range.min > def.range.max || value < def.range.min
+        || value > def.range.max
+      ) {
+        errInvalidSetting(
+          key,
+          `default value ${value} is not within the range ${def.range.min} - ${def.range.max}.`,
+        );
+      }
+    }
+  }
+};
+
+export const getSettingEnumId = (appID: string, key: string) =>
+  `${appID}.${key}`;
+
+export const getSettingGVariantType = (def: SettingDefinition) =>
+  def.type === "enum" ? undefined : GVARIANT_TYPES[def.type];
+
+const toGVariantString = (value: string) =>
+  `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+/**
+ * Converts the value into the GVariant text format, used for
+ * the default values in the schema XML.
+ */
+export const toGVariantText = (def: SettingDefinition, value: SettingValue) => {
+  switch (def.type) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "string":
+    case "enum":
+      return toGVariantString(value as string);
+    case "int":
+      return String(value);
+    case "double": {
+      const str = String(value);
+      return /[.e]/.test(str) ? str : `${str}.0`;
+    }
+    case "string[]":
+      return `[${(value as string[]).map(toGVariantString).join(", ")}]`;
+  }
+};
+
+export const settingKeyToProperty = (key: string) =>
+  key.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+export const getSettingAccessors = (def: SettingDefinition) =>
+  ACCESSORS[def.type];
+
+export const getSettingTsType = (def: SettingDefinition) => {
+  switch (def.type) {
+    case "boolean":
+      return "boolean";
+    case "string":
+      return "string";
+    case "int":
+    case "double":
+      return "number";
+    case "string[]":
+      return "string[]";
+    case "enum":
+      return def.choices!.map((c) => JSON.stringify(c)).join(" | ");
+  }
+};
@@ -0,0 +1,46 @@
+export type ArEntry = {
+  name: string;
+  data: Buffer;
+  /** Modification time, in seconds since the epoch. */
+  mtime: number;
+  mode?: number;
+};
+
+const AR_MAGIC = "!<arch>\n";
+const AR_HEADER_END = "`\n";
+
+const field = (value: string | number, length: number) => {
+  const str = String(value);
+  if (str.length > length) {
+    throw new Error(`Value '${str}' does not fit in an ar header field.`);
+  }
+  return str.padEnd(length, " ");
+};
+
+/**
+ * Creates an archive in the common `ar` format, as used by the
+ * Debian packages. Only short file names (up to 16 characters)
+ * are supported.
+ */
+export const createArArchive = (entries: ArEntry[]) => {
+  const parts: Buffer[] = [Buffer.from(AR_MAGIC, "ascii")];
+
+  for (const entry of entries) {
+    const header = field(entry.name, 16)
+      + field(entry.mtime, 12)
+      + field(0, 6) // owner id
+      + field(0, 6) // group id
+      + field((entry.mode ?? 0o100644).toString(8), 8)
+      + field(entry.data.length, 10)
+      + AR_HEADER_END;
+
+    parts.push(Buffer.from(header, "ascii"), entry.data);
+
+    // each entry must start at an even offset
+    if (entry.data.length % 2 === 1) {
+      parts.push(Buffer.from("\n", "ascii"));
+    }
+  }
+
+  return Buffer.concat(parts);
+};
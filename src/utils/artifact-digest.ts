@@ -0,0 +1,86 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import tar from "tar";
+
+export type ArtifactDigest = {
+  /** Name of the artifact used in the reported differences. */
+  name: string;
+  sha256: string;
+  /** Digests of the archive entries, for tarballs only. */
+  entries?: Map<string, string>;
+};
+
+const sha256 = (data: Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+
+const getTarballEntries = async (filePath: string) => {
+  const entries = new Map<string, string>();
+
+  await tar.list({
+    file: filePath,
+    onentry(entry) {
+      const chunks: Buffer[] = [];
+      entry.on("data", (chunk: Buffer) => chunks.push(chunk));
+      entry.on("end", () => {
+        // headers are included, so metadata changes are detected too
+        const header = JSON.stringify([entry.mode, entry.mtime, entry.type]);
+        entries.set(
+          entry.path,
+          sha256(Buffer.concat([Buffer.from(header), ...chunks])),
+        );
+      });
+    },
+  });
+
+  return entries;
+};
+
+export const getArtifactDigest = async (
+  filePath: string,
+  name = filePath,
+): Promise<ArtifactDigest> => {
+  const digest: ArtifactDigest = {
+    name,
+    sha256: sha256(await fs.readFile(filePath)),
+  };
+
+  if (/\.(tar\.gz|tgz)$/.test(filePath)) {
+    digest.entries = await getTarballEntries(filePath);
+  }
+
+  return digest;
+};
+
+/**
+ * Compares the digests of the same artifact from two builds, and
+ * returns the description of each difference. If the artifact is
+ * a tarball the differing entries are listed.
+ */
+export const diffArtifactDigests = (a: ArtifactDigest, b: ArtifactDigest) => {
+  if (a.sha256 === b.sha256) return [];
+
+  if (!a.entries || !b.entries) {
+    return [`${a.name}: content differs`];
+  }
+
+  const differences: string[] = [];
+  const names = new Set([...a.entries.keys(), ...b.entries.keys()]);
+
+  for (const name of [...names].sort()) {
+    const first = a.entries.get(name);
+    const second = b.entries.get(name);
+
+    if (first == null || second == null) {
+      differences.push(`${a.name}: ${name} is only present in one build`);
+    } else if (first !== second) {
+      differences.push(`${a.name}: ${name} differs`);
+    }
+  }
+
+  if (differences.length === 0) {
+    // same entries, the archive format itself differs
+    differences.push(`${a.name}: archive differs`);
+  }
+
+  return differences;
+};
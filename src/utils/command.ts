@@ -4,7 +4,7 @@ export class Command {
   constructor(
     private command: string,
     private args: string[],
-    private options: { cwd?: string },
+    private options: { cwd?: string; env?: NodeJS.ProcessEnv },
   ) {}
 
   public async run(): Promise<string> {
@@ -0,0 +1,9 @@
+/**
+ * Compares the strings by their UTF-16 code units, for sorting the
+ * content of the generated files. Unlike `localeCompare` the result
+ * is the same in every locale, so the builds stay reproducible.
+ */
+export const compareStrings = (a: string, b: string) => {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+};
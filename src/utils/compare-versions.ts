@@ -0,0 +1,23 @@
+/**
+ * Finds the first version number (e.g. `1.2.3`) in the given text.
+ */
+export const parseVersion = (text: string) => {
+  return text.match(/\d+(\.\d+)+/)?.[0];
+};
+
+/**
+ * Compares two dot separated version numbers. Returns a negative
+ * number if `a` is lower than `b`, a positive number if it's
+ * greater and 0 if they are equal.
+ */
+export const compareVersions = (a: string, b: string) => {
+  const aParts = a.split(".").map(Number);
+  const bParts = b.split(".").map(Number);
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+};
@@ -0,0 +1,69 @@
+import fs from "fs/promises";
+import path from "path";
+import tar from "tar";
+import { compareStrings } from "./compare-strings";
+import { getSourceDate } from "./source-date-epoch";
+
+/**
+ * Lists the files and directories in the given directory, sorted
+ * so that the parent directories always come before their content.
+ */
+const listEntries = async (dirPath: string, exclude: string[]) => {
+  const result: string[] = [];
+
+  const walk = async (relPath: string) => {
+    const entries = await fs.readdir(path.join(dirPath, relPath), {
+      withFileTypes: true,
+    });
+
+    entries.sort((a, b) => compareStrings(a.name, b.name));
+
+    for (const entry of entries) {
+      const entryPath = relPath ? `${relPath}/${entry.name}` : entry.name;
+
+      if (exclude.includes(entryPath)) continue;
+
+      result.push(entryPath);
+
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      }
+    }
+  };
+
+  await walk("");
+
+  return result;
+};
+
+/**
+ * Creates a gzipped tarball of the directory content. Entries are
+ * added in a fixed order, with the owner information stripped and
+ * the modification time set to the `SOURCE_DATE_EPOCH`, so the same
+ * content always results in the same archive.
+ */
+export const createTarball = async (params: {
+  cwd: string;
+  file: string;
+  /** Path prefix added to all the entries. */
+  prefix?: string;
+  /** Paths, relative to the `cwd`, that should not be included. */
+  exclude?: string[];
+  /** Modification time of the entries, `SOURCE_DATE_EPOCH` by default. */
+  mtime?: Date;
+}) => {
+  const entries = await listEntries(params.cwd, params.exclude ?? []);
+
+  await tar.create(
+    {
+      gzip: true,
+      portable: true,
+      noDirRecurse: true,
+      mtime: params.mtime ?? getSourceDate(),
+      cwd: params.cwd,
+      file: params.file,
+      prefix: params.prefix,
+    },
+    entries,
+  );
+};
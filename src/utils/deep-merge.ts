@@ -0,0 +1,29 @@
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Merges the `override` object into the `base` object, without
+ * modifying either of them. Nested plain objects are merged, any
+ * other values (arrays, functions, class instances) are replaced.
+ * Properties set to `undefined` in the `override` are ignored.
+ */
+export const deepMerge = <T extends Record<string, unknown>>(
+  base: T,
+  override: Record<string, unknown>,
+): T => {
+  const result: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value)
+      ? deepMerge(current, value)
+      : value;
+  }
+
+  return result as T;
+};
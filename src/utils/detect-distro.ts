@@ -0,0 +1,44 @@
+import { existsSync, readFileSync } from "fs";
+
+export type DistroFamily = "debian" | "fedora" | "arch" | "opensuse";
+
+const DISTRO_FAMILIES: Record<string, DistroFamily> = {
+  debian: "debian",
+  ubuntu: "debian",
+  fedora: "fedora",
+  rhel: "fedora",
+  centos: "fedora",
+  arch: "arch",
+  suse: "opensuse",
+  opensuse: "opensuse",
+};
+
+/**
+ * Detects the family of the Linux distribution based on the `ID`
+ * and `ID_LIKE` fields of the `/etc/os-release` file.
+ */
+export const detectDistro = (
+  osReleasePath = "/etc/os-release",
+): DistroFamily | undefined => {
+  if (!existsSync(osReleasePath)) return;
+
+  const fields = new Map<string, string>();
+
+  for (const line of readFileSync(osReleasePath, "utf-8").split("\n")) {
+    const match = line.match(/^(\w+)=(.*)$/);
+    if (match) {
+      fields.set(match[1]!, match[2]!.replace(/^["']|["']$/g, ""));
+    }
+  }
+
+  const ids = [
+    fields.get("ID") ?? "",
+    ...(fields.get("ID_LIKE") ?? "").split(/\s+/),
+  ];
+
+  for (const id of ids) {
+    for (const [name, family] of Object.entries(DISTRO_FAMILIES)) {
+      if (id === name || id.startsWith(`${name}-`)) return family;
+    }
+  }
+};
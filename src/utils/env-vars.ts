@@ -7,6 +7,10 @@ export class EnvVars {
     this.defined.set(name, value);
   }
 
+  public getAll(): Record<string, EnvVariableValue> {
+    return Object.fromEntries(this.defined);
+  }
+
   public toJavascriptModule() {
     return `export default { ${
       Array.from(this.defined)
@@ -9,15 +9,20 @@ export class ESBuild {
   }
 
   async init(options: esbuild.BuildOptions, watch?: boolean) {
+    await this.dispose();
     this.watch = watch;
     this.ctx = await esbuild.context(options);
   }
 
-  async start() {
+  /**
+   * Starts the build. In watch mode nothing is returned, otherwise
+   * the result of the build is returned.
+   */
+  async start(): Promise<esbuild.BuildResult | undefined> {
     if (this.watch) {
       await this.ctx.watch();
     } else {
-      await this.ctx.rebuild();
+      return await this.ctx.rebuild();
     }
   }
 
@@ -0,0 +1,10 @@
+const XML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  "\"": "&quot;",
+  "'": "&apos;",
+};
+
+export const escapeXml = (str: string) =>
+  str.replace(/[&<>"']/g, (c) => XML_ENTITIES[c]!);
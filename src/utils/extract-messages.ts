@@ -0,0 +1,203 @@
+export type TranslatableMessage = {
+  context?: string;
+  msgid: string;
+  msgidPlural?: string;
+  /** Locations of the message in the `file:line` format. */
+  references: string[];
+};
+
+/**
+ * Translation functions and the meaning of their arguments.
+ */
+const GETTEXT_FUNCTIONS = {
+  _: ["msgid"],
+  ngettext: ["msgid", "msgidPlural"],
+  pgettext: ["context", "msgid"],
+} as const;
+
+type GettextFunction = keyof typeof GETTEXT_FUNCTIONS;
+
+const CALL_REGEX = /(?<![\w$.])(_|ngettext|pgettext)\s*\(/g;
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  b: "\b",
+  f: "\f",
+  v: "\v",
+  "0": "\0",
+};
+
+class ArgumentsReader {
+  constructor(private source: string, public pos: number) {}
+
+  private skipWhitespaceAndComments() {
+    for (;;) {
+      const rest = this.source.slice(this.pos);
+      const match = rest.match(/^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/);
+      if (!match) return;
+      this.pos += match[0].length;
+    }
+  }
+
+  private readStringLiteral(): string | undefined {
+    const quote = this.source[this.pos];
+
+    if (quote !== "\"" && quote !== "'" && quote !== "`") return;
+
+    let value = "";
+    let i = this.pos + 1;
+
+    while (i < this.source.length) {
+      const char = this.source[i]!;
+
+      if (char === quote) {
+        this.pos = i + 1;
+        return value;
+      }
+
+      if (char === "\\") {
+        const next = this.source[i + 1]!;
+        if (next === "u" && this.source[i + 2] === "{") {
+          const end = this.source.indexOf("}", i);
+          value += String.fromCodePoint(
+            parseInt(this.source.slice(i + 3, end), 16),
+          );
+          i = end + 1;
+        } else if (next === "u") {
+          value += String.fromCharCode(
+            parseInt(this.source.slice(i + 2, i + 6), 16),
+          );
+          i += 6;
+        } else if (next === "x") {
+          value += String.fromCharCode(
+            parseInt(this.source.slice(i + 2, i + 4), 16),
+          );
+          i += 4;
+        } else if (next === "\n") {
+          // line continuation
+          i += 2;
+        } else {
+          value += ESCAPES[next] ?? next;
+          i += 2;
+        }
+        continue;
+      }
+
+      // template literals with expressions cannot be translated
+      if (quote === "`" && char === "$" && this.source[i + 1] === "{") {
+        return;
+      }
+
+      if (char === "\n" && quote !== "`") return;
+
+      value += char;
+      i++;
+    }
+  }
+
+  /**
+   * Reads an argument that is a string literal, or a concatenation
+   * of string literals. Returns undefined if the argument is
+   * anything else.
+   */
+  readStringArgument(): string | undefined {
+    let value = "";
+
+    for (;;) {
+      this.skipWhitespaceAndComments();
+      const part = this.readStringLiteral();
+      if (part === undefined) return;
+      value += part;
+      this.skipWhitespaceAndComments();
+
+      if (this.source[this.pos] !== "+") return value;
+      this.pos++;
+    }
+  }
+
+  /**
+   * Consumes the argument separator, returns false if there's none.
+   */
+  readSeparator() {
+    this.skipWhitespaceAndComments();
+    if (this.source[this.pos] !== ",") return false;
+    this.pos++;
+    return true;
+  }
+}
+
+const getLineNumber = (source: string, index: number) => {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (source[i] === "\n") line++;
+  }
+  return line;
+};
+
+/**
+ * Finds all the calls to the translation functions (`_()`,
+ * `ngettext()` and `pgettext()`) in the given source code. Calls
+ * that are not given string literals are ignored, since those
+ * cannot be extracted.
+ */
+export const extractMessages = (
+  source: string,
+  filename: string,
+): TranslatableMessage[] => {
+  const messages: TranslatableMessage[] = [];
+
+  for (const match of source.matchAll(CALL_REGEX)) {
+    const fn = match[1] as GettextFunction;
+    const reader = new ArgumentsReader(source, match.index! + match[0].length);
+    const message: Partial<TranslatableMessage> = {};
+
+    let valid = true;
+    for (const [idx, field] of GETTEXT_FUNCTIONS[fn].entries()) {
+      if (idx > 0 && !reader.readSeparator()) {
+        valid = false;
+        break;
+      }
+
+      const value = reader.readStringArgument();
+      if (value === undefined) {
+        valid = false;
+        break;
+      }
+
+      message[field] = value;
+    }
+
+    if (!valid || !message.msgid) continue;
+
+    messages.push({
+      ...message,
+      msgid: message.msgid,
+      references: [`${filename}:${getLineNumber(source, match.index!)}`],
+    });
+  }
+
+  return messages;
+};
+
+/**
+ * Merges the messages with the same id and context.
+ */
+export const mergeMessages = (messages: TranslatableMessage[]) => {
+  const merged = new Map<string, TranslatableMessage>();
+
+  for (const message of messages) {
+    const key = `${message.context ?? ""}\u0004${message.msgid}`;
+    const existing = merged.get(key);
+
+    if (existing) {
+      existing.references.push(...message.references);
+      existing.msgidPlural ??= message.msgidPlural;
+    } else {
+      merged.set(key, { ...message, references: [...message.references] });
+    }
+  }
+
+  return [...merged.values()];
+};
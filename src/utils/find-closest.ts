@@ -0,0 +1,41 @@
+const getEditDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost,
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+};
+
+/**
+ * Returns the candidate most similar to the given name, if any of
+ * them is similar enough to be a likely typo. Letter case is ignored.
+ */
+export const findClosest = (name: string, candidates: string[]) => {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = getEditDistance(
+      name.toLowerCase(),
+      candidate.toLowerCase(),
+    );
+    if (distance <= maxDistance && distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+};
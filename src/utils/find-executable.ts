@@ -0,0 +1,20 @@
+import { accessSync, constants } from "fs";
+import path from "path";
+
+/**
+ * Returns the full path of the executable with the given name, found
+ * in one of the directories in the `PATH`.
+ */
+export const findExecutable = (name: string) => {
+  const dirs = (process.env.PATH ?? "").split(path.delimiter).filter(Boolean);
+
+  for (const dir of dirs) {
+    const filePath = path.resolve(dir, name);
+    try {
+      accessSync(filePath, constants.X_OK);
+      return filePath;
+    } catch {
+      //
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { existsSync, readdirSync } from "fs";
+import path from "path";
+
+const DEFAULT_TYPELIB_DIRS = [
+  "/usr/lib64/girepository-1.0",
+  "/usr/lib/girepository-1.0",
+  "/usr/local/lib64/girepository-1.0",
+  "/usr/local/lib/girepository-1.0",
+  "/app/lib/girepository-1.0",
+];
+
+/**
+ * Returns the directories searched for the typelibs, the ones from
+ * the `GI_TYPELIB_PATH` first, followed by the system directories.
+ */
+export const getTypelibDirs = (extraDirs: string[] = []) => {
+  const dirs = [
+    ...(process.env.GI_TYPELIB_PATH ?? "").split(path.delimiter),
+    ...extraDirs,
+    ...DEFAULT_TYPELIB_DIRS,
+  ];
+
+  // multiarch directories, e.g. /usr/lib/x86_64-linux-gnu
+  if (existsSync("/usr/lib")) {
+    for (const entry of readdirSync("/usr/lib")) {
+      if (/-linux-gnu/.test(entry)) {
+        dirs.push(path.join("/usr/lib", entry, "girepository-1.0"));
+      }
+    }
+  }
+
+  return [...new Set(dirs.filter((d) => d && existsSync(d)))];
+};
+
+/**
+ * Finds the typelib of the given GI namespace. If the version is not
+ * specified, a typelib of any version is accepted.
+ */
+export const findTypelib = (
+  dirs: string[],
+  namespace: string,
+  version?: string,
+) => {
+  for (const dir of dirs) {
+    if (version) {
+      const filePath = path.join(dir, `${namespace}-${version}.typelib`);
+      if (existsSync(filePath)) return filePath;
+    } else {
+      const file = readdirSync(dir).find((f) =>
+        f.startsWith(`${namespace}-`) && f.endsWith(".typelib")
+      );
+      if (file) return path.join(dir, file);
+    }
+  }
+};
@@ -6,7 +6,15 @@ import {
 } from "./get-polyfills";
 import { getRuntimeInitImportPaths } from "./get-runtime-init";
 
-export function getEntrypoint(program: Program) {
+export function getEntrypoint(
+  program: Program,
+  options?: {
+    /** Include the runtime of the `start` command hot reload. */
+    hotReload?: boolean;
+    /** Include the runtime reloading the stylesheets when they change. */
+    liveCss?: boolean;
+  },
+) {
   const userEntrypointPath = path.resolve(
     program.cwd,
     program.config.entrypoint,
@@ -20,6 +28,18 @@ export function getEntrypoint(program: Program) {
   }
   lines.push("");
 
+  if (options?.hotReload) {
+    lines.push("// Hot reload runtime");
+    lines.push(`import "@reactgjs/react-gtk/runtime/esm/dev/hot-reload.mjs";`);
+    lines.push("");
+  }
+
+  if (options?.liveCss) {
+    lines.push("// Live CSS runtime");
+    lines.push(`import "@reactgjs/react-gtk/runtime/esm/dev/live-css.mjs";`);
+    lines.push("");
+  }
+
   lines.push("// Register global polyfills");
   for (const polyfill of getGlobalPolyfillsInmportPaths(program)) {
     lines.push(`import ${JSON.stringify(polyfill)};`);
@@ -1,4 +1,5 @@
 import type esbuild from "esbuild";
+import { buildEventsPlugin } from "../esbuild-plugins/build-events/build-events-plugin";
 import { importPolyfillsPlugin } from "../esbuild-plugins/import-polyfills/import-polyfills";
 import {
   ReactGtkEsbuildPluginOptions,
@@ -8,6 +9,8 @@ import { watchLoggerPlugin } from "../esbuild-plugins/watch-logger/watch-logger-
 import type { Program } from "../programs/base";
 
 export type AdditionalPlugins = {
+  /** Plugins that run even before the built-in ones. */
+  first?: esbuild.Plugin[];
   before?: esbuild.Plugin[];
   after?: esbuild.Plugin[];
 };
@@ -19,6 +22,7 @@ export const getPlugins = (
   const additionalPlugins = program.additionalPlugins();
 
   const plugins = [
+    ...(additionalPlugins.first ?? []),
     importPolyfillsPlugin(program),
     reactGtkPlugin(program, options),
   ];
@@ -28,7 +32,7 @@ export const getPlugins = (
   }
 
   if (program.watchMode) {
-    plugins.push(watchLoggerPlugin());
+    plugins.push(watchLoggerPlugin(program));
   }
 
   if (program.config.esbuildPlugins) {
@@ -39,5 +43,7 @@ export const getPlugins = (
     plugins.push(...additionalPlugins.after);
   }
 
+  plugins.push(buildEventsPlugin(program));
+
   return plugins;
 };
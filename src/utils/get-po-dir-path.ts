@@ -0,0 +1,9 @@
+import path from "path";
+import type { Program } from "../programs/base";
+
+/**
+ * Returns the path of the project directory containing the translations.
+ */
+export function getPoDirPath(program: Program) {
+  return path.resolve(program.cwd, program.config.i18n?.poDir ?? "./po");
+}
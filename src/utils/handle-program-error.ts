@@ -1,5 +1,6 @@
 import type { ValidationError } from "dilswer/dist/types/validation-algorithms/validation-error/validation-error";
 import { html, Output } from "termx-markup";
+import { ConfigValidationError } from "../config/validate-config";
 
 const Stderr = new Output(console.error);
 
@@ -11,7 +12,16 @@ export const handleProgramError = (e: unknown) => {
     return (isObject(e) && e instanceof Error && "fieldPath" in e) || false;
   };
 
-  if (isValidationError(e)) {
+  if (e instanceof ConfigValidationError) {
+    Stderr.print(html`
+      <span>
+        <line color="lightRed">Config file is invalid:</line>
+        <pad size="2">
+          <pre>${e.message}</pre>
+        </pad>
+      </span>
+    `);
+  } else if (isValidationError(e)) {
     Stderr.print(html`
       <span color="lightRed">
         Config file is invalid. Property
@@ -0,0 +1,120 @@
+import { getDebGirPackage } from "../packaging/templates/deb/control";
+import type { DistroFamily } from "./detect-distro";
+
+type DistroPackages = Record<DistroFamily, string>;
+
+/**
+ * Packages providing the external tools and the libraries used by
+ * the build, on each of the supported distributions.
+ */
+export const DEPENDENCY_PACKAGES: Record<string, DistroPackages> = {
+  meson: {
+    debian: "meson",
+    fedora: "meson",
+    arch: "meson",
+    opensuse: "meson",
+  },
+  ninja: {
+    debian: "ninja-build",
+    fedora: "ninja-build",
+    arch: "ninja",
+    opensuse: "ninja",
+  },
+  "pkg-config": {
+    debian: "pkg-config",
+    fedora: "pkgconf-pkg-config",
+    arch: "pkgconf",
+    opensuse: "pkg-config",
+  },
+  gjs: {
+    debian: "gjs",
+    fedora: "gjs",
+    arch: "gjs",
+    opensuse: "gjs",
+  },
+  "glib-compile-resources": {
+    debian: "libglib2.0-dev-bin",
+    fedora: "glib2-devel",
+    arch: "glib2",
+    opensuse: "glib2-tools",
+  },
+  "glib-compile-schemas": {
+    debian: "libglib2.0-bin",
+    fedora: "glib2",
+    arch: "glib2",
+    opensuse: "glib2-tools",
+  },
+  msgfmt: {
+    debian: "gettext",
+    fedora: "gettext",
+    arch: "gettext",
+    opensuse: "gettext-tools",
+  },
+  "gtk-update-icon-cache": {
+    debian: "gtk-update-icon-cache",
+    fedora: "gtk-update-icon-cache",
+    arch: "gtk-update-icon-cache",
+    opensuse: "gtk3-tools",
+  },
+  "desktop-file-validate": {
+    debian: "desktop-file-utils",
+    fedora: "desktop-file-utils",
+    arch: "desktop-file-utils",
+    opensuse: "desktop-file-utils",
+  },
+  "appstream-util": {
+    debian: "appstream-util",
+    fedora: "libappstream-glib",
+    arch: "appstream-glib",
+    opensuse: "appstream-glib",
+  },
+  "glib-2.0": {
+    debian: "libglib2.0-dev",
+    fedora: "glib2-devel",
+    arch: "glib2",
+    opensuse: "glib2-devel",
+  },
+  "gobject-introspection-1.0": {
+    debian: "libgirepository1.0-dev",
+    fedora: "gobject-introspection-devel",
+    arch: "gobject-introspection",
+    opensuse: "gobject-introspection-devel",
+  },
+  "gjs-1.0": {
+    debian: "libgjs-dev",
+    fedora: "gjs-devel",
+    arch: "gjs",
+    opensuse: "gjs-devel",
+  },
+};
+
+const INSTALL_COMMANDS: Record<DistroFamily, string> = {
+  debian: "sudo apt install",
+  fedora: "sudo dnf install",
+  arch: "sudo pacman -S",
+  opensuse: "sudo zypper install",
+};
+
+/**
+ * Returns the package providing the typelib of the given GI library,
+ * if it can be determined for the distribution.
+ */
+export const getTypelibPackage = (
+  distro: DistroFamily,
+  namespace: string,
+  version?: string,
+) => {
+  switch (distro) {
+    case "debian":
+      return version ? getDebGirPackage(namespace, version) : undefined;
+    case "fedora":
+    case "opensuse":
+      return version
+        ? `'typelib(${namespace}) = ${version}'`
+        : `'typelib(${namespace})'`;
+  }
+};
+
+export const getInstallCommand = (distro: DistroFamily, packages: string[]) => {
+  return `${INSTALL_COMMANDS[distro]} ${[...new Set(packages)].join(" ")}`;
+};
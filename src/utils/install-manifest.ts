@@ -0,0 +1,94 @@
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+export type InstallManifest = {
+  appID: string;
+  version: string;
+  prefix: string;
+  installedAt: string;
+  /** Absolute paths of all the installed files and symlinks. */
+  files: string[];
+};
+
+/**
+ * Expands the leading `~` of the path to the user home directory.
+ */
+export const expandHomeDir = (filePath: string) => {
+  if (filePath === "~") return os.homedir();
+  if (filePath.startsWith("~/")) {
+    return path.join(os.homedir(), filePath.slice(2));
+  }
+  return filePath;
+};
+
+/**
+ * Returns the path of the manifest listing the files of the
+ * application installed with the `install` command.
+ */
+export const getInstallManifestPath = (appID: string) => {
+  const dataHome = process.env.XDG_DATA_HOME
+    || path.join(os.homedir(), ".local", "share");
+
+  return path.resolve(dataHome, "react-gtk", "installs", `${appID}.json`);
+};
+
+export const readInstallManifest = async (
+  appID: string,
+): Promise<InstallManifest | undefined> => {
+  const manifestPath = getInstallManifestPath(appID);
+
+  if (!existsSync(manifestPath)) return;
+
+  return JSON.parse(await fs.readFile(manifestPath, "utf-8"));
+};
+
+export const writeInstallManifest = async (manifest: InstallManifest) => {
+  const manifestPath = getInstallManifestPath(manifest.appID);
+
+  await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+  await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+};
+
+export const removeInstallManifest = async (appID: string) => {
+  await fs.rm(getInstallManifestPath(appID), { force: true });
+};
+
+/**
+ * Removes the installed files, files that no longer exist are
+ * ignored. Directories left empty are removed as well, but only
+ * the ones inside a directory created specifically for the
+ * application (i.e. its name contains the app ID), shared
+ * directories like `bin` or `share/icons` are always kept.
+ */
+export const removeInstalledFiles = async (appID: string, files: string[]) => {
+  const dirs = new Set<string>();
+
+  for (const file of files) {
+    await fs.rm(file, { force: true });
+    dirs.add(path.dirname(file));
+  }
+
+  const appDirs = [...dirs]
+    .flatMap((dir) => {
+      const ancestors: string[] = [];
+      for (let d = dir; d !== path.dirname(d); d = path.dirname(d)) {
+        ancestors.push(d);
+      }
+      const appDirIdx = ancestors.findLastIndex((d) =>
+        path.basename(d).includes(appID)
+      );
+      return ancestors.slice(0, appDirIdx + 1);
+    })
+    // deepest directories first
+    .sort((a, b) => b.length - a.length);
+
+  for (const dir of new Set(appDirs)) {
+    try {
+      await fs.rmdir(dir);
+    } catch {
+      // not empty or already removed
+    }
+  }
+};
@@ -0,0 +1,30 @@
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Recursively lists all the files and symlinks in the given
+ * directory. Returned paths are relative to that directory and
+ * sorted alphabetically.
+ */
+export const listFiles = async (dirPath: string): Promise<string[]> => {
+  const result: string[] = [];
+
+  const walk = async (relPath: string) => {
+    const entries = await fs.readdir(path.join(dirPath, relPath), {
+      withFileTypes: true,
+    });
+
+    for (const entry of entries) {
+      const entryPath = path.join(relPath, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else {
+        result.push(entryPath);
+      }
+    }
+  };
+
+  await walk("");
+
+  return result.sort();
+};
@@ -45,7 +45,8 @@ export class OutputPipe {
         }
       },
       this.output,
-      { signal: this.controller.signal },
+      // the output is shared, it must stay open after the source ends
+      { signal: this.controller.signal, end: false },
     ).catch((e) => {
       if (!isAbortError(e)) {
         console.error(e);
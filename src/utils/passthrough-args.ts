@@ -0,0 +1,23 @@
+const SEPARATOR = "--";
+
+const getArgv = () => process.argv.slice(2);
+
+/**
+ * Returns the CLI arguments before the `--` separator, the ones
+ * meant for the react-gtk CLI itself.
+ */
+export const getCliArgs = () => {
+  const argv = getArgv();
+  const separatorIdx = argv.indexOf(SEPARATOR);
+  return separatorIdx === -1 ? argv : argv.slice(0, separatorIdx);
+};
+
+/**
+ * Returns the CLI arguments after the `--` separator, these are
+ * passed as is to the started application.
+ */
+export const getPassthroughArgs = () => {
+  const argv = getArgv();
+  const separatorIdx = argv.indexOf(SEPARATOR);
+  return separatorIdx === -1 ? [] : argv.slice(separatorIdx + 1);
+};
@@ -0,0 +1,8 @@
+/**
+ * Quotes the argument of a command that is run through the shell,
+ * arguments that contain any special characters are single-quoted.
+ */
+export const quoteShellArg = (arg: string) => {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+};
@@ -1,8 +1,15 @@
 import fs from "fs";
 import path from "path";
+import { html, Output } from "termx-markup";
+import { checkConfigFiles } from "../config/check-config-files";
+import type { Config } from "../config/config-type";
 import { parseConfig } from "../config/parse-config";
+import { getConfigWarnings } from "../config/validate-config";
 import type { Program } from "../programs/base";
 
+// warnings go to stderr, the output of some commands is parsed
+const Stderr = new Output(console.error);
+
 export const readConfig = async (program: Program) => {
   const cwdFiles = fs.readdirSync(program.cwd);
 
@@ -16,9 +23,28 @@ export const readConfig = async (program: Program) => {
     mode: program.isDev ? "development" : "production",
   });
 
-  if (config.sourcemap == null) {
-    config.sourcemap = true;
+  return prepareConfig(config, program.cwd);
+};
+
+/**
+ * Reports the unknown properties of the validated config, checks
+ * that the files it references exist and fills in the defaults.
+ */
+export const prepareConfig = (config: Config, cwd: string) => {
+  for (const warning of getConfigWarnings(config)) {
+    Stderr.print(html`<span color="yellow">${warning}</span>`);
   }
 
-  return config;
+  checkConfigFiles(config, cwd);
+
+  return applyConfigDefaults(config);
 };
+
+/**
+ * Returns a copy of the config with the defaults of the options that
+ * are not set.
+ */
+export const applyConfigDefaults = (config: Config): Config => ({
+  ...config,
+  sourcemap: config.sourcemap ?? true,
+});
@@ -0,0 +1,21 @@
+/**
+ * Returns the build timestamp. When the `SOURCE_DATE_EPOCH`
+ * environment variable is set, that timestamp is used instead of
+ * the current time, so that the archives and generated files are
+ * the same on every build.
+ *
+ * @see https://reproducible-builds.org/specs/source-date-epoch/
+ */
+export const getSourceDate = () => {
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+
+  if (epoch == null || epoch === "") return new Date();
+
+  if (!/^\d+$/.test(epoch)) {
+    throw new Error(
+      `Invalid SOURCE_DATE_EPOCH value '${epoch}', expected a number of seconds since the Unix epoch.`,
+    );
+  }
+
+  return new Date(Number(epoch) * 1000);
+};
@@ -0,0 +1,89 @@
+const CLEAR_LINE = "\r\x1b[2K";
+
+type Write = typeof process.stdout.write;
+
+const endsWithNewline = (chunk: string | Uint8Array) => {
+  if (typeof chunk === "string") return chunk.endsWith("\n");
+  return chunk[chunk.length - 1] === 0x0a;
+};
+
+/**
+ * A line kept at the bottom of the terminal. Everything written to
+ * stdout or stderr is printed above it, the line is erased before
+ * each write and drawn again after it.
+ */
+export class StatusLine {
+  private text = "";
+  private isDrawn = false;
+  private atLineStart = true;
+  private writeStdout?: Write;
+  private originalWrites = new Map<NodeJS.WriteStream, Write>();
+
+  private onExit = () => this.erase();
+
+  private install() {
+    if (this.writeStdout) return;
+
+    const writeStdout = process.stdout.write.bind(process.stdout);
+    this.writeStdout = writeStdout;
+
+    for (const stream of [process.stdout, process.stderr]) {
+      const original = stream.write;
+      const write = original.bind(stream);
+
+      this.originalWrites.set(stream, original);
+
+      // the arguments are passed on as they are, whichever of the
+      // overloads of `write` they match
+      stream.write = ((...args: Parameters<Write>) => {
+        this.erase();
+        const result = write(...args);
+        this.atLineStart = endsWithNewline(args[0]);
+        this.draw();
+        return result;
+      }) as Write;
+    }
+
+    process.on("exit", this.onExit);
+  }
+
+  private erase() {
+    if (this.isDrawn) {
+      this.writeStdout!(CLEAR_LINE);
+      this.isDrawn = false;
+    }
+  }
+
+  private draw() {
+    // a partially written line can't be moved, the status is drawn
+    // again once it's finished
+    if (this.atLineStart && this.text) {
+      this.writeStdout!(this.text);
+      this.isDrawn = true;
+    }
+  }
+
+  set(text: string) {
+    this.install();
+    this.erase();
+    this.text = text;
+    this.draw();
+  }
+
+  /**
+   * Erases the line and restores the original `write` methods of
+   * the streams.
+   */
+  close() {
+    this.erase();
+    this.text = "";
+
+    for (const [stream, write] of this.originalWrites) {
+      stream.write = write;
+    }
+
+    this.originalWrites.clear();
+    this.writeStdout = undefined;
+    process.off("exit", this.onExit);
+  }
+}
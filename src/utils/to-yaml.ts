@@ -0,0 +1,58 @@
+type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+const isPlainObject = (v: unknown): v is Record<string, YamlValue> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isEmpty = (v: YamlValue) =>
+  (Array.isArray(v) && v.length === 0)
+  || (isPlainObject(v) && Object.keys(v).length === 0);
+
+const scalar = (v: YamlValue): string => {
+  if (v == null) return "null";
+  if (Array.isArray(v)) return "[]";
+  if (isPlainObject(v)) return "{}";
+  // JSON strings are valid double-quoted YAML scalars
+  return typeof v === "string" ? JSON.stringify(v) : String(v);
+};
+
+const serialize = (value: YamlValue, indent: string): string[] => {
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if ((isPlainObject(item) || Array.isArray(item)) && !isEmpty(item)) {
+        const [first, ...rest] = serialize(item, indent + "  ");
+        lines.push(`${indent}- ${first!.trimStart()}`, ...rest);
+      } else {
+        lines.push(`${indent}- ${scalar(item)}`);
+      }
+    }
+  } else if (isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+
+      if ((isPlainObject(item) || Array.isArray(item)) && !isEmpty(item)) {
+        lines.push(`${indent}${key}:`);
+        lines.push(...serialize(item, indent + "  "));
+      } else {
+        lines.push(`${indent}${key}: ${scalar(item)}`);
+      }
+    }
+  } else {
+    lines.push(`${indent}${scalar(value)}`);
+  }
+
+  return lines;
+};
+
+/**
+ * Serializes a JSON-compatible value into a YAML document.
+ */
+export const toYaml = (value: YamlValue) => serialize(value, "").join("\n");
@@ -0,0 +1,136 @@
+import fs from "fs/promises";
+import path from "path";
+
+export type IconFormat = "svg" | "png";
+
+export type IconInfo = {
+  format: IconFormat;
+  width: number;
+  height: number;
+};
+
+/**
+ * The smallest size of a raster icon from which all of the required
+ * icon sizes can be generated without upscaling it too much.
+ */
+export const MIN_PNG_ICON_SIZE = 256;
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const errInvalidIcon = (filepath: string, reason: string): never => {
+  throw new Error(`Invalid application icon '${filepath}': ${reason}`);
+};
+
+const readPngSize = (filepath: string, data: Buffer) => {
+  if (data.length < 24 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return errInvalidIcon(filepath, "file is not a valid PNG image.");
+  }
+
+  // The IHDR chunk is always the first one, width and height are
+  // stored in it as 4 byte big endian integers
+  return {
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20),
+  };
+};
+
+const parseSvgLength = (value?: string) => {
+  if (value == null) return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+  return match ? Number(match[1]) : undefined;
+};
+
+const readSvgSize = (filepath: string, data: Buffer) => {
+  const content = data.toString("utf-8");
+  const svgTag = content.match(/<svg\b[^>]*>/)?.[0];
+
+  if (!svgTag) {
+    return errInvalidIcon(filepath, "file is not a valid SVG image.");
+  }
+
+  const attr = (name: string) =>
+    svgTag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+  const viewBox = attr("viewBox")
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+
+  const width = parseSvgLength(attr("width")) ?? viewBox?.[2];
+  const height = parseSvgLength(attr("height")) ?? viewBox?.[3];
+
+  if (
+    width == null || height == null || Number.isNaN(width)
+    || Number.isNaN(height)
+  ) {
+    return errInvalidIcon(
+      filepath,
+      "the SVG image must define its size with the width and height attributes or a viewBox.",
+    );
+  }
+
+  return { width, height };
+};
+
+/**
+ * Checks that the given icon file can be used as the application
+ * icon and returns its format and dimensions.
+ */
+export const validateIcon = async (
+  filepath: string,
+  options: { symbolic?: boolean } = {},
+): Promise<IconInfo> => {
+  const ext = path.extname(filepath).toLowerCase();
+
+  if (ext !== ".svg" && ext !== ".png") {
+    return errInvalidIcon(filepath, "only SVG and PNG icons are supported.");
+  }
+
+  if (options.symbolic && ext !== ".svg") {
+    return errInvalidIcon(filepath, "symbolic icons must be SVG images.");
+  }
+
+  let data: Buffer;
+  try {
+    data = await fs.readFile(filepath);
+  } catch {
+    return errInvalidIcon(filepath, "file does not exist.");
+  }
+
+  const format: IconFormat = ext === ".svg" ? "svg" : "png";
+  const { width, height } = format === "svg"
+    ? readSvgSize(filepath, data)
+    : readPngSize(filepath, data);
+
+  if (width !== height) {
+    return errInvalidIcon(
+      filepath,
+      `icon must be square, but it is ${width}x${height}.`,
+    );
+  }
+
+  if (format === "png" && width < MIN_PNG_ICON_SIZE) {
+    return errInvalidIcon(
+      filepath,
+      `PNG icons must be at least ${MIN_PNG_ICON_SIZE}x${MIN_PNG_ICON_SIZE}, but it is ${width}x${height}. Consider using an SVG icon instead.`,
+    );
+  }
+
+  return { format, width, height };
+};
+
+/**
+ * Icon names are looked up by the application ID, which means the ID
+ * must also be a valid icon name.
+ */
+export const validateIconName = (name: string) => {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)) {
+    throw new Error(
+      `Invalid application icon name '${name}': icon names can only contain letters, numbers, dots, dashes and underscores.`,
+    );
+  }
+
+  return name;
+};
@@ -0,0 +1,27 @@
+import fs from "fs/promises";
+
+/**
+ * Writes the file only if its current content is different. Keeping
+ * the modification time of unchanged files lets meson and ninja skip
+ * the steps depending on them.
+ */
+export async function writeIfChanged(filepath: string, content: string) {
+  const current = await fs.readFile(filepath, "utf8").catch(() => undefined);
+  if (current !== content) {
+    await fs.writeFile(filepath, content);
+  }
+}
+
+/**
+ * Copies the file only if the destination doesn't exist or has a
+ * different content.
+ */
+export async function copyIfChanged(source: string, destination: string) {
+  const [current, content] = await Promise.all([
+    fs.readFile(destination).catch(() => undefined),
+    fs.readFile(source),
+  ]);
+  if (!current || !current.equals(content)) {
+    await fs.copyFile(source, destination);
+  }
+}